@@ -2,32 +2,68 @@
 // Just deploy this script and configure environment variables
 import { PowCloudflare } from 'pow-shield';
 
-// Initialize with environment variables
-const powWorker = new PowCloudflare({
-  endpoints: JSON.parse(PROTECTED_ENDPOINTS || '[]'),
-  secret: POW_SECRET || '',
-  difficulty: parseInt(POW_DIFFICULTY || '4'),
-  timestampTolerance: parseInt(POW_TIMESTAMP_TOLERANCE || '30'),
-  cacheType: 'memory',
-  cacheSize: parseInt(POW_CACHE_SIZE || '10000'),
-  cloudflare: {
-    rateLimiting: RATE_LIMITING !== 'false',
-    requestsPerMinute: parseInt(REQUESTS_PER_MINUTE || '30')
+// Durable Object class backing the 'durableObject' cache type
+export { PowShieldCoordinator } from 'pow-shield';
+
+let powWorker = null;
+
+// Initialize with environment variables on the first request
+function getPowWorker(env) {
+  if (!powWorker) {
+    powWorker = new PowCloudflare({
+      endpoints: JSON.parse(env.PROTECTED_ENDPOINTS || '[]'),
+      secret: env.POW_SECRET || '',
+      // Rotating keys, newest first, each with its own POW_SECRET_<id>
+      secrets: JSON.parse(env.POW_KEYS || '[]').map(key => ({
+        ...key,
+        secret: env[`POW_SECRET_${key.id}`]
+      })),
+      // 'ed25519' or 'ecdsa-p256' sign with POW_PRIVATE_KEY, so the origin needs only the public key
+      signatureAlgorithm: env.POW_SIGNATURE_ALGORITHM || 'hmac',
+      privateKey: env.POW_PRIVATE_KEY,
+      difficulty: parseFloat(env.POW_DIFFICULTY || '4'),
+      timestampTolerance: parseInt(env.POW_TIMESTAMP_TOLERANCE || '30'),
+      algorithm: env.POW_ALGORITHM || 'sha256',
+      scrypt: {
+        N: parseInt(env.POW_SCRYPT_N || '1024')
+      },
+      adaptiveDifficulty: {
+        enabled: env.POW_ADAPTIVE_DIFFICULTY === 'true'
+      },
+      token: {
+        enabled: env.POW_TOKEN_ENABLED === 'true',
+        ttl: parseInt(env.POW_TOKEN_TTL || '300'),
+        maxRequests: parseInt(env.POW_TOKEN_MAX_REQUESTS || '100')
+      },
+      // Browsers navigating to protected pages solve PoW on a page served by the Worker
+      interstitial: {
+        enabled: env.POW_INTERSTITIAL_ENABLED === 'true',
+        ttl: parseInt(env.POW_INTERSTITIAL_TTL || '3600'),
+        maxRequests: parseInt(env.POW_INTERSTITIAL_MAX_REQUESTS || '1000')
+      },
+      cacheType: env.POW_CACHE_TYPE || 'memory',
+      cacheSize: parseInt(env.POW_CACHE_SIZE || '10000'),
+      cloudflare: {
+        rateLimiting: env.RATE_LIMITING !== 'false',
+        requestsPerMinute: parseInt(env.REQUESTS_PER_MINUTE || '30'),
+        rateLimitAlgorithm: env.RATE_LIMIT_ALGORITHM || 'fixedWindow'
+      }
+    }, {
+      // Shared nonce storage for the 'kv' and 'durableObject' cache types
+      kv: env.POW_NONCES,
+      durableObject: env.POW_COORDINATOR
+    });
   }
-});
+
+  return powWorker;
+}
 
 export default {
   async fetch(request, env, ctx) {
-    // Check if the request needs PoW validation
-    const powResponse = await powWorker.handleRequest(request);
-    
-    // If powResponse is not null, validation failed - return the error
-    if (powResponse) {
-      return powResponse;
-    }
-    
-    // Validation succeeded, pass the request to origin
-    // The request now includes the X-HMAC header
-    return fetch(request);
+    // Validate the request and forward it to origin if it passes.
+    // Rejected requests get the error response; accepted requests are
+    // sent to origin with the X-HMAC header added, and the origin's
+    // response gets RateLimit-* and X-Pow-Difficulty headers.
+    return getPowWorker(env).protect(request);
   }
-};
\ No newline at end of file
+};
@@ -16,14 +16,7 @@ addEventListener('fetch', (event) => {
 });
 
 async function handleRequest(request) {
-  // Check if the request is for a protected endpoint
-  const workerResponse = await powWorker.handleRequest(request);
-  
-  // If a response is returned, it means PoW validation failed
-  if (workerResponse) {
-    return workerResponse;
-  }
-  
-  // Otherwise, fetch from origin with the added HMAC header
-  return fetch(request);
+  // Responds with challenges, the interstitial page or a rejection where needed;
+  // valid requests are forwarded to origin with the HMAC header added
+  return powWorker.protect(request);
 }
\ No newline at end of file
@@ -0,0 +1,109 @@
+import type { PowShieldConfig } from './config.js';
+import { LRUCache } from 'lru-cache';
+
+/**
+ * Count that halves every half-life
+ */
+interface DecayingCount {
+  value: number;
+  updatedAt: number;  // ms since epoch
+}
+
+/**
+ * Raises the required difficulty while an endpoint rule is under load or a client
+ * keeps failing verification. Observed counts decay over time, so the
+ * difficulty falls back to the configured value once things calm down.
+ *
+ * Counts are kept in memory, so each Worker isolate adapts to the traffic it sees.
+ */
+export class AdaptiveDifficulty {
+  private config: PowShieldConfig;
+  private loads: LRUCache<string, DecayingCount>;
+  private failures: LRUCache<string, DecayingCount>;
+
+  constructor(config: PowShieldConfig) {
+    this.config = config;
+    this.loads = new LRUCache({ max: config.cacheSize || 10000 });
+    this.failures = new LRUCache({ max: config.cacheSize || 10000 });
+  }
+
+  /**
+   * Computes the difficulty currently required for a request
+   * @param pattern Pattern of the endpoint rule the request matched
+   * @param clientKeys Keys identifying the client, e.g. its IP
+   * @param base Difficulty required when idle (default: config.difficulty)
+   * @param now Current time (ms since epoch)
+   * @returns Required difficulty
+   */
+  getDifficulty(
+    pattern: string,
+    clientKeys: string[],
+    base: number = this.config.difficulty || 4,
+    now: number = Date.now()
+  ): number {
+    const settings = this.config.adaptiveDifficulty || {};
+
+    const load = this.read(this.loads, pattern, now);
+    const failures = Math.max(0, ...clientKeys.map(key => this.read(this.failures, key, now)));
+
+    const difficulty = base +
+      AdaptiveDifficulty.steps(load, settings.loadThreshold || 100) +
+      AdaptiveDifficulty.steps(failures, settings.failureThreshold || 3);
+
+    return Math.min(difficulty, Math.max(base, settings.maxDifficulty || 20));
+  }
+
+  /**
+   * Records a request to an endpoint rule
+   * @param pattern Pattern of the endpoint rule the request matched
+   * @param now Current time (ms since epoch)
+   */
+  recordRequest(pattern: string, now: number = Date.now()): void {
+    this.increment(this.loads, pattern, now);
+  }
+
+  /**
+   * Records a failed verification
+   * @param clientKeys Keys identifying the client, e.g. its IP
+   * @param now Current time (ms since epoch)
+   */
+  recordFailure(clientKeys: string[], now: number = Date.now()): void {
+    for (const key of clientKeys) {
+      this.increment(this.failures, key, now);
+    }
+  }
+
+  /**
+   * Number of difficulty steps to add for a count: one at the threshold, and
+   * one more each time the count doubles beyond it
+   * @param count Observed count
+   * @param threshold Count at which difficulty starts to rise
+   * @returns Extra difficulty
+   */
+  private static steps(count: number, threshold: number): number {
+    if (count < threshold) {
+      return 0;
+    }
+    return Math.floor(Math.log2(count / threshold)) + 1;
+  }
+
+  /**
+   * Reads a count, decayed to the current time
+   */
+  private read(cache: LRUCache<string, DecayingCount>, key: string, now: number): number {
+    const entry = cache.get(key);
+    if (!entry) {
+      return 0;
+    }
+
+    const halfLife = (this.config.adaptiveDifficulty?.halfLife || 60) * 1000; // Convert to milliseconds
+    return entry.value * Math.pow(2, -Math.max(0, now - entry.updatedAt) / halfLife);
+  }
+
+  /**
+   * Adds one to a count
+   */
+  private increment(cache: LRUCache<string, DecayingCount>, key: string, now: number): void {
+    cache.set(key, { value: this.read(cache, key, now) + 1, updatedAt: now });
+  }
+}
@@ -0,0 +1,117 @@
+import type { PowShieldConfig } from './config.js';
+import { CryptoUtils } from './utils/crypto.js';
+import { formatDifficulty, parseDifficulty } from './utils/difficulty.js';
+import { getSigningKey, getVerificationSecrets } from './keys.js';
+
+/**
+ * Server-issued PoW challenge
+ */
+export interface PowChallenge {
+  seed: string;        // Random value the stamp must include
+  difficulty: number;  // Number of leading zero bits required, may be fractional
+  expires: number;     // Unix timestamp (seconds) after which the challenge is rejected
+  signature: string;   // HMAC over the fields above
+}
+
+/**
+ * Creates a signed challenge. The signature lets verifiers check the
+ * challenge later without storing it.
+ * @param config Configuration with the shared secret
+ * @param now Current time in milliseconds
+ * @returns Signed challenge
+ */
+export function createChallenge(config: PowShieldConfig, now: number = Date.now()): PowChallenge {
+  const seed = CryptoUtils.generateNonce();
+  // Rounded the way it is encoded, so the signature covers exactly what the client sees
+  const difficulty = Number(formatDifficulty(config.difficulty || 4));
+  const expires = Math.floor(now / 1000) + (config.challenge?.ttl || 60);
+
+  return {
+    seed,
+    difficulty,
+    expires,
+    signature: signChallenge(seed, difficulty, expires, getSigningKey(config, now).secret, config)
+  };
+}
+
+/**
+ * Checks that a challenge was issued with our secret and has not expired
+ * @param challenge Challenge to check
+ * @param config Configuration with the shared secret
+ * @param now Current time in milliseconds
+ * @returns True if the challenge is valid
+ */
+export function verifyChallenge(
+  challenge: PowChallenge,
+  config: PowShieldConfig,
+  now: number = Date.now()
+): boolean {
+  if (Math.floor(now / 1000) > challenge.expires) {
+    return false;
+  }
+
+  // Challenges carry no key ID, so any active key may have signed them
+  const matches = getVerificationSecrets(config, undefined, now).map(secret => {
+    const expected = signChallenge(challenge.seed, challenge.difficulty, challenge.expires, secret, config);
+    return CryptoUtils.timingSafeEqual(challenge.signature, expected);
+  });
+  return matches.includes(true);
+}
+
+/**
+ * Encodes a challenge for the X-Challenge header
+ * @param challenge Challenge to encode
+ * @returns Header value
+ */
+export function encodeChallenge(challenge: PowChallenge): string {
+  return `${challenge.seed}.${formatDifficulty(challenge.difficulty)}.${challenge.expires}.${challenge.signature}`;
+}
+
+/**
+ * Decodes an X-Challenge header value
+ * @param value Header value
+ * @returns Challenge, or null if the value is malformed
+ */
+export function decodeChallenge(value: string): PowChallenge | null {
+  const parts = value.split('.');
+  if (parts.length !== 4 && parts.length !== 5) {
+    return null;
+  }
+
+  // A fractional difficulty such as 14.5 adds one part
+  const [seed, ...rest] = parts;
+  const signature = rest.pop();
+  const expires = rest.pop();
+  const difficultyNum = parseDifficulty(rest.join('.'));
+  const expiresNum = parseInt(expires || '', 10);
+
+  if (!seed || !signature || difficultyNum === null || isNaN(expiresNum)) {
+    return null;
+  }
+
+  return { seed, difficulty: difficultyNum, expires: expiresNum, signature };
+}
+
+/**
+ * Computes the signature of a challenge
+ * @param seed Challenge seed
+ * @param difficulty Challenge difficulty
+ * @param expires Challenge expiry
+ * @param secret Shared secret to sign with
+ * @param config Configuration with the HMAC algorithm
+ * @returns Hex-encoded HMAC signature
+ */
+function signChallenge(
+  seed: string,
+  difficulty: number,
+  expires: number,
+  secret: string,
+  config: PowShieldConfig
+): string {
+  // Prefixed so a challenge signature can never double as an origin HMAC
+  return CryptoUtils.hmac(
+    `challenge:${seed}:${formatDifficulty(difficulty)}:${expires}`,
+    secret,
+    config.hmacAlgorithm
+  );
+}
@@ -17,12 +17,18 @@ program
   .option('-e, --endpoints <endpoints>', 'Comma-separated list of protected API endpoints (required)')
   .option('-d, --difficulty <difficulty>', 'PoW difficulty level', '4')
   .option('-t, --tolerance <seconds>', 'Timestamp tolerance in seconds', '30')
+  .option('--adaptive-difficulty', 'Raise difficulty under load or after repeated failures')
   .option('-c, --cache-size <size>', 'Size of nonce cache', '10000')
+  .option('--cache-type <type>', 'Nonce cache type (memory, kv, durableObject)', 'memory')
+  .option('--kv-namespace <id>', 'KV namespace ID for the kv cache type')
   .option('-r, --rate-limit <enabled>', 'Enable rate limiting', 'true')
   .option('-l, --limit <requests>', 'Requests per minute per IP', '30')
+  .option('--rate-algorithm <algorithm>', 'Rate limit algorithm (fixedWindow, slidingWindow, tokenBucket)', 'fixedWindow')
   .option('-n, --name <name>', 'Worker name', 'pow-shield-worker')
   .option('-o, --output <directory>', 'Output directory', '.pow-shield-worker')
   .option('-s, --secret <secret>', 'HMAC secret (not recommended, use prompts instead)')
+  .option('--add-key <id>', 'Add a rotating HMAC key and sign with it (prompts for its secret)')
+  .option('--retire-key <id>', 'Stop signing with a rotating HMAC key')
   .option('--no-deploy', 'Generate files without deploying')
   .option('--route <pattern>', 'Add a route pattern (e.g., example.com/api/*)')
   .option('--zone <name>', 'Zone name for the route');
@@ -37,6 +43,34 @@ if (!options.endpoints) {
   process.exit(1);
 }
 
+if (!['memory', 'kv', 'durableObject'].includes(options.cacheType)) {
+  console.error('Error: --cache-type must be one of: memory, kv, durableObject');
+  process.exit(1);
+}
+
+if (!['fixedWindow', 'slidingWindow', 'tokenBucket'].includes(options.rateAlgorithm)) {
+  console.error('Error: --rate-algorithm must be one of: fixedWindow, slidingWindow, tokenBucket');
+  process.exit(1);
+}
+
+if (options.cacheType === 'kv' && !options.kvNamespace) {
+  console.error('Error: --kv-namespace option is required with --cache-type kv');
+  process.exit(1);
+}
+
+// Key IDs become part of the secret name, e.g. POW_SECRET_2025_06
+for (const keyId of [options.addKey, options.retireKey]) {
+  if (keyId !== undefined && !/^[A-Za-z0-9_]+$/.test(keyId)) {
+    console.error('Error: key IDs may only contain letters, digits and underscores');
+    process.exit(1);
+  }
+}
+
+if (options.addKey && options.retireKey) {
+  console.error('Error: add the new key and retire the old one in separate deployments');
+  process.exit(1);
+}
+
 // Ask for secret if not provided
 async function getSecret() {
   if (options.secret) {
@@ -78,8 +112,37 @@ function formatEndpoints(endpoints) {
   return JSON.stringify(endpointList).replace(/"/g, '\\"');
 }
 
+// Load the IDs of rotating keys from earlier deployments, newest first.
+// Only IDs are kept on disk; the secrets themselves live in Wrangler.
+function loadKeys() {
+  const keysPath = path.join(options.output, 'keys.json');
+  if (!fs.existsSync(keysPath)) {
+    return [];
+  }
+  return JSON.parse(fs.readFileSync(keysPath, 'utf8'));
+}
+
+// Apply --add-key or --retire-key to the key list
+function updateKeys(keys) {
+  if (options.addKey) {
+    if (keys.some(key => key.id === options.addKey)) {
+      throw new Error(`Key ${options.addKey} already exists`);
+    }
+    return [{ id: options.addKey }, ...keys];
+  }
+
+  if (options.retireKey) {
+    if (!keys.some(key => key.id === options.retireKey)) {
+      throw new Error(`Key ${options.retireKey} does not exist`);
+    }
+    return keys.filter(key => key.id !== options.retireKey);
+  }
+
+  return keys;
+}
+
 // Create the worker directory structure
-async function createWorkerFiles(secret) {
+async function createWorkerFiles(secret, keys) {
   // Create directory if it doesn't exist
   if (!fs.existsSync(options.output)) {
     fs.mkdirSync(options.output, { recursive: true });
@@ -100,9 +163,50 @@ async function createWorkerFiles(secret) {
     .replace('__ENDPOINTS__', formatEndpoints(options.endpoints))
     .replace('__DIFFICULTY__', options.difficulty)
     .replace('__TIMESTAMP_TOLERANCE__', options.tolerance)
+    .replace('__ADAPTIVE_DIFFICULTY__', options.adaptiveDifficulty ? 'true' : 'false')
+    .replace('__CACHE_TYPE__', options.cacheType)
     .replace('__CACHE_SIZE__', options.cacheSize)
     .replace('__RATE_LIMITING__', options.rateLimit)
-    .replace('__REQUESTS_PER_MINUTE__', options.limit);
+    .replace('__REQUESTS_PER_MINUTE__', options.limit)
+    .replace('__RATE_LIMIT_ALGORITHM__', options.rateAlgorithm)
+    .replace('__KEYS__', JSON.stringify(keys).replace(/"/g, '\\"'));
+  
+  // Bind the KV namespace used for shared nonce storage
+  if (options.cacheType === 'kv') {
+    wranglerContent = wranglerContent.replace(
+      '# [[kv_namespaces]]',
+      '[[kv_namespaces]]'
+    ).replace(
+      '# binding = "POW_NONCES"',
+      'binding = "POW_NONCES"'
+    ).replace(
+      '# id = "__KV_NAMESPACE_ID__"',
+      `id = "${options.kvNamespace}"`
+    );
+  }
+  
+  // Bind the coordinator Durable Object and register its class
+  if (options.cacheType === 'durableObject') {
+    wranglerContent = wranglerContent.replace(
+      '# [[durable_objects.bindings]]',
+      '[[durable_objects.bindings]]'
+    ).replace(
+      '# name = "POW_COORDINATOR"',
+      'name = "POW_COORDINATOR"'
+    ).replace(
+      '# class_name = "PowShieldCoordinator"',
+      'class_name = "PowShieldCoordinator"'
+    ).replace(
+      '# [[migrations]]',
+      '[[migrations]]'
+    ).replace(
+      '# tag = "pow-shield-v1"',
+      'tag = "pow-shield-v1"'
+    ).replace(
+      '# new_sqlite_classes = ["PowShieldCoordinator"]',
+      'new_sqlite_classes = ["PowShieldCoordinator"]'
+    );
+  }
   
   // Add route if specified
   if (options.route && options.zone) {
@@ -122,21 +226,26 @@ async function createWorkerFiles(secret) {
   }
   
   fs.writeFileSync(path.join(options.output, 'wrangler.toml'), wranglerContent);
+  fs.writeFileSync(path.join(options.output, 'keys.json'), JSON.stringify(keys, null, 2));
   
   console.log(`Worker files created in: ${options.output}`);
   
   return {
     workerDir: options.output,
-    secret
+    secret,
+    // Rotating keys each have their own secret, so retiring one leaves the others untouched
+    secretName: options.addKey ? `POW_SECRET_${options.addKey}` : 'POW_SECRET'
   };
 }
 
 // Deploy to Cloudflare Workers
-async function deployWorker({ workerDir, secret }) {
+async function deployWorker({ workerDir, secret, secretName }) {
   if (!options.deploy) {
     console.log('Deployment skipped. To deploy manually:');
     console.log(`cd ${workerDir}`);
-    console.log('wrangler secret put POW_SECRET');
+    if (secret !== undefined) {
+      console.log(`wrangler secret put ${secretName}`);
+    }
     console.log('wrangler deploy');
     return;
   }
@@ -146,24 +255,26 @@ async function deployWorker({ workerDir, secret }) {
   // Change to worker directory
   process.chdir(workerDir);
   
-  // Set secret
-  console.log('Setting POW_SECRET...');
-  const secretProcess = spawn('wrangler', ['secret', 'put', 'POW_SECRET'], {
-    stdio: ['pipe', 'inherit', 'inherit']
-  });
-  
-  secretProcess.stdin.write(secret);
-  secretProcess.stdin.end();
-  
-  await new Promise((resolve) => {
-    secretProcess.on('close', (code) => {
-      if (code !== 0) {
-        console.error('Failed to set secret. Make sure you have Wrangler installed and configured.');
-        process.exit(1);
-      }
-      resolve();
+  // Set secret, before deploying a worker that expects it
+  if (secret !== undefined) {
+    console.log(`Setting ${secretName}...`);
+    const secretProcess = spawn('wrangler', ['secret', 'put', secretName], {
+      stdio: ['pipe', 'inherit', 'inherit']
     });
-  });
+    
+    secretProcess.stdin.write(secret);
+    secretProcess.stdin.end();
+    
+    await new Promise((resolve) => {
+      secretProcess.on('close', (code) => {
+        if (code !== 0) {
+          console.error('Failed to set secret. Make sure you have Wrangler installed and configured.');
+          process.exit(1);
+        }
+        resolve();
+      });
+    });
+  }
   
   // Deploy worker
   console.log('Deploying worker...');
@@ -190,14 +301,24 @@ async function main() {
     console.log('PoW Shield Worker Deployment');
     console.log('===========================');
     
-    const secret = await getSecret();
-    const workerConfig = await createWorkerFiles(secret);
+    const keys = updateKeys(loadKeys());
+    
+    // Retiring a key needs no new secret
+    const secret = options.retireKey ? undefined : await getSecret();
+    const workerConfig = await createWorkerFiles(secret, keys);
     await deployWorker(workerConfig);
     
     console.log('\nDeployment complete!');
-    console.log('\nRemember to:');
-    console.log('1. Configure your client-side with PoW Shield');
-    console.log('2. Set up your origin server with the same HMAC secret');
+    if (options.addKey) {
+      console.log(`\nThe worker now signs with key ${options.addKey}. Your origin server must already accept it.`);
+    } else if (options.retireKey) {
+      console.log(`\nThe worker no longer signs with key ${options.retireKey}. Once your origin stops accepting it, remove its secret:`);
+      console.log(`wrangler secret delete POW_SECRET_${options.retireKey}`);
+    } else {
+      console.log('\nRemember to:');
+      console.log('1. Configure your client-side with PoW Shield');
+      console.log('2. Set up your origin server with the same HMAC secret');
+    }
     
   } catch (error) {
     console.error('Error:', error.message);
@@ -1,9 +1,76 @@
 import type { PowShieldConfig } from './config.js';
-import { validateAndMergeConfig } from './config.js';
+import { getScryptParams, validateAndMergeConfig } from './config.js';
 import { CryptoUtils } from './utils/crypto.js';
+import type { RequestBinding } from './utils/stamp.js';
+import { buildStampInput, canonicalizeQuery, computeStamp } from './utils/stamp.js';
+import type { PowChallenge } from './challenge.js';
+import { encodeChallenge } from './challenge.js';
+import { findEndpointRule } from './rules.js';
+import type { PowSolution } from './solver.js';
+import { solveInWorkers } from './solver.js';
+import { PowAbortError, PowErrorCode, PowRateLimitError, parsePowError } from './errors.js';
+import { parseDifficulty } from './utils/difficulty.js';
+import { decodeAccessToken } from './token.js';
+
+/**
+ * Options for generating PoW headers
+ */
+export interface PowHeaderOptions {
+  challenge?: PowChallenge;   // Server-issued challenge to solve
+  request?: RequestBinding;   // Request details to bind the stamp to ('request' binding only)
+  difficulty?: number;        // Minimum difficulty to solve for, e.g. advertised by the Worker
+  method?: string;            // HTTP method, used to pick the endpoint rule (default: request.method or 'GET')
+  signal?: AbortSignal;       // Stops solving
+  timeoutMs?: number;         // Milliseconds to spend solving before giving up (default: client.solveTimeout)
+  onProgress?: (progress: PowProgress) => void; // Called periodically while solving
+}
+
+/**
+ * Fetch options accepted by PowClient.fetch. The request's own signal also stops solving.
+ */
+export interface PowFetchOptions extends RequestInit {
+  timeoutMs?: number;         // Milliseconds to spend solving each stamp before giving up (default: client.solveTimeout)
+  retry?: boolean;            // Retry recoverable rejections (default: for idempotent methods, or all with client.retryNonIdempotent)
+  onProgress?: (progress: PowProgress) => void; // Called periodically while solving
+}
+
+/**
+ * Progress of a running PoW search
+ */
+export interface PowProgress {
+  attempts: number;           // Hashes computed so far, across all threads
+  hashrate: number;           // Hashes per second
+  elapsed: number;            // Milliseconds since solving started
+  estimatedRemaining: number; // Milliseconds until the expected number of attempts is reached (0 once it is)
+}
+
+/**
+ * PoW headers with statistics about the search that produced them
+ */
+export interface PowSolveResult {
+  headers: Record<string, string>;
+  difficulty: number;         // Difficulty solved for
+  attempts: number;           // Hashes computed, across all threads
+  expectedAttempts: number;   // Average number of hashes needed at this difficulty
+}
+
+// Stands in for the nonce when splitting the stamp input for worker threads
+const NONCE_MARKER = '\u0000nonce\u0000';
+
+// Nonces hashed per batch on the calling thread, between pauses for other work
+const SOLVE_BATCH_SIZE = 100;
+
+// Minimum milliseconds between progress callbacks
+const PROGRESS_INTERVAL = 100;
+
+// Methods that can be resent without repeating side effects (RFC 9110)
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE', 'TRACE'];
 
 export class PowClient {
   private config: PowShieldConfig;
+  private difficultyHints = new Map<string, number>();  // Last difficulty advertised per endpoint
+  private clockOffset = 0;                                // Milliseconds the server clock is ahead of ours
+  private accessTokens = new Map<string, { value: string; expires: number; remaining: number }>(); // Per endpoint rule
 
   constructor(config: Partial<PowShieldConfig>) {
     this.config = validateAndMergeConfig(config, 'client');
@@ -12,95 +79,475 @@ export class PowClient {
   /**
    * Makes a fetch request with PoW headers
    * @param url URL to fetch
-   * @param options Fetch options
+   * @param fetchOptions Fetch options, plus solving timeout and progress callback
    * @returns Fetch response
    */
-  async fetch(url: string, options: RequestInit = {}): Promise<Response> {
+  async fetch(url: string, fetchOptions: PowFetchOptions = {}): Promise<Response> {
+    const { timeoutMs, onProgress, retry: retryOption, ...options } = fetchOptions;
+    const signal = options.signal ?? undefined;
+
     // Extract the endpoint path from the URL
     const urlObj = new URL(url);
     const endpoint = urlObj.pathname;
+    const method = (options.method || 'GET').toUpperCase();
 
     // Check if this endpoint is protected
-    if (!this.isProtectedEndpoint(endpoint)) {
+    const rule = findEndpointRule(this.config, endpoint, method);
+    if (!rule) {
       // If not protected, make a regular fetch request
       return fetch(url, options);
     }
 
-    // Generate PoW headers
-    const powHeaders = await this.getHeaders(endpoint);
-    
-    // Merge with existing headers
-    const mergedHeaders = {
-      ...options.headers,
-      ...powHeaders
-    };
+    // Bind the stamp to method, query and body when configured
+    const binding = this.config.stampBinding === 'request'
+      ? await this.getRequestBinding(urlObj, options)
+      : undefined;
+
+    // Resending a request that may have had effects is only safe for idempotent methods.
+    // Streamed bodies are consumed by the first attempt, so they cannot be resent at all
+    // unless they were buffered for request binding.
+    const replayable = binding !== undefined || isReplayableBody(options.body);
+    const retry = replayable &&
+      (retryOption ?? (IDEMPOTENT_METHODS.includes(method) || Boolean(this.config.client?.retryNonIdempotent)));
+    const maxRetries = this.config.client?.maxRetries || 5;
+    let difficulty = this.difficultyHints.get(endpoint);
+    let currentChallenge: PowChallenge | undefined;
+
+    for (let attempt = 0; ; attempt++) {
+      // An access token from an earlier solve stands in for PoW until it runs out
+      const token = this.takeAccessToken(rule.pattern);
+
+      // Fetch a challenge first when the server issues them
+      if (!token && this.config.challenge?.enabled && !currentChallenge) {
+        currentChallenge = await this.getChallenge(urlObj.origin, signal);
+      }
+
+      const solvedDifficulty = Math.max(difficulty ?? 0, this.getBaseDifficulty(endpoint, method, currentChallenge));
+      const powHeaders = token ? this.getTokenHeaders(token) : await this.getHeaders(endpoint, {
+        challenge: currentChallenge,
+        request: binding?.request,
+        difficulty,
+        method,
+        signal,
+        timeoutMs,
+        onProgress
+      });
+      const response = await this.send(url, options, powHeaders, binding);
+
+      this.updateClockOffset(response);
+      this.storeAccessToken(rule.pattern, response);
+
+      // A rejected token is dropped, so the retry solves instead
+      if (token && response.status === 403) {
+        this.accessTokens.delete(rule.pattern);
+      }
+
+      // Remember the difficulty the Worker currently requires for this endpoint
+      const advertised = parseDifficulty(response.headers.get('X-Pow-Difficulty'));
+      if (advertised !== null) {
+        this.difficultyHints.set(endpoint, advertised);
+      }
+
+      if (response.status < 400 || !retry || attempt >= maxRetries) {
+        return this.checkResponse(response);
+      }
+
+      // Workers predating error codes only advertise a higher difficulty
+      const error = await parsePowError(response);
+      const code = error?.code ?? (response.status === 403 && advertised !== null ? PowErrorCode.Difficulty : undefined);
+
+      switch (code) {
+        case PowErrorCode.Difficulty:
+          // Re-solve if the stamp was rejected for being too easy
+          if (advertised === null || advertised <= solvedDifficulty) {
+            return this.checkResponse(response);
+          }
+          difficulty = advertised;
+          break;
+        case PowErrorCode.Expired:
+          // The timestamp may have been rejected because the local clock is off
+          this.updateClockOffset(response, true);
+          break;
+        case PowErrorCode.ChallengeInvalid:
+          if (this.config.challenge?.enabled) {
+            currentChallenge = await this.getChallenge(urlObj.origin, signal);
+          }
+          break;
+        case PowErrorCode.Replay:
+          // A fresh stamp has a fresh nonce
+          break;
+        case PowErrorCode.TokenInvalid:
+          // The token was dropped above
+          break;
+        case PowErrorCode.RateLimited: {
+          const retryAfter = error instanceof PowRateLimitError ? error.retryAfter ?? 1 : 1;
+          if (retryAfter > (this.config.client?.maxRetryAfter ?? 60)) {
+            return this.checkResponse(response);
+          }
+          await wait(retryAfter * 1000, signal);
+          break;
+        }
+        default:
+          return this.checkResponse(response);
+      }
+    }
+  }
+
+  /**
+   * Sends a request with PoW or access token headers
+   * @param url URL to fetch
+   * @param options Fetch options
+   * @param powHeaders PoW or access token headers
+   * @param binding Serialized body and content type ('request' binding only)
+   * @returns Fetch response
+   */
+  private async send(
+    url: string,
+    options: RequestInit,
+    powHeaders: Record<string, string>,
+    binding?: { body: Uint8Array | undefined; contentType: string | null }
+  ): Promise<Response> {
+    // HeadersInit may be a Headers object or an array of pairs, so it is not spread as a record
+    const headers = new Headers(options.headers);
+    for (const [name, value] of Object.entries(powHeaders)) {
+      headers.set(name, value);
+    }
+
+    if (binding) {
+      // Sending raw bytes drops the content type fetch would have derived from the body
+      if (binding.contentType && !headers.has('Content-Type')) {
+        headers.set('Content-Type', binding.contentType);
+      }
+
+      // Send exactly the bytes that were hashed
+      return fetch(url, {
+        ...options,
+        headers,
+        body: binding.body
+      });
+    }
 
     // Make the fetch request with PoW headers
     return fetch(url, {
       ...options,
-      headers: mergedHeaders
+      headers
     });
   }
 
   /**
    * Gets PoW headers for a request
    * @param endpoint API endpoint
+   * @param options Header options
    * @returns Headers object with PoW headers
    */
-  async getHeaders(endpoint: string): Promise<Record<string, string>> {
-    const timestamp = Math.floor(Date.now() / 1000).toString();
+  async getHeaders(endpoint: string, options: PowHeaderOptions = {}): Promise<Record<string, string>> {
+    const { headers } = await this.solve(endpoint, options);
+    return headers;
+  }
+
+  /**
+   * Solves a PoW stamp for a request and reports how much work it took
+   * @param endpoint API endpoint
+   * @param options Header options
+   * @returns PoW headers and solving statistics
+   */
+  async solve(endpoint: string, options: PowHeaderOptions = {}): Promise<PowSolveResult> {
+    const timestamp = Math.floor((Date.now() + this.clockOffset) / 1000).toString();
     const context = this.generateContext();
+    const { challenge, request } = options;
+    const method = options.method || request?.method || 'GET';
+    const difficulty = Math.max(options.difficulty ?? 0, this.getBaseDifficulty(endpoint, method, challenge));
     
     // Generate a valid PoW stamp
-    const { nonce, stamp } = await this.generateValidPow(endpoint, timestamp, context);
+    const { nonce, stamp, attempts } = await this.generateValidPow(
+      endpoint, timestamp, context, difficulty, challenge, request, options
+    );
     
-    return {
+    const headers: Record<string, string> = {
       'X-Timestamp': timestamp,
       'X-Nonce': nonce,
       'X-Context': context,
-      'X-Stamp': stamp
+      'X-Stamp': stamp,
+      'X-Pow-Algorithm': this.config.algorithm || 'sha256'
     };
+
+    if (challenge) {
+      headers['X-Challenge'] = encodeChallenge(challenge);
+    }
+
+    return { headers, difficulty, attempts, expectedAttempts: Math.pow(2, difficulty) };
   }
 
   /**
-   * Generates a valid PoW stamp
+   * Builds the headers sent with an access token in place of a PoW stamp
+   * @param token X-Pow-Token value
+   * @returns Headers with a fresh timestamp and nonce
+   */
+  private getTokenHeaders(token: string): Record<string, string> {
+    return {
+      'X-Timestamp': Math.floor((Date.now() + this.clockOffset) / 1000).toString(),
+      'X-Nonce': CryptoUtils.generateNonce(),
+      'X-Context': this.generateContext(),
+      'X-Pow-Token': token
+    };
+  }
+
+  /**
+   * Takes one use of the access token cached for an endpoint rule
+   * @param scope Pattern of the endpoint rule
+   * @returns Token, or undefined if none is cached or it ran out
+   */
+  private takeAccessToken(scope: string): string | undefined {
+    const token = this.accessTokens.get(scope);
+    if (!token) {
+      return undefined;
+    }
+
+    // Judged by the Worker's clock, which decides when the token expires
+    if (token.remaining <= 0 || token.expires * 1000 <= Date.now() + this.clockOffset) {
+      this.accessTokens.delete(scope);
+      return undefined;
+    }
+
+    token.remaining--;
+    return token.value;
+  }
+
+  /**
+   * Caches the access token a Worker issued for a solved stamp
+   * @param scope Pattern of the endpoint rule the stamp was solved for
+   * @param response Response from the Worker
+   */
+  private storeAccessToken(scope: string, response: Response): void {
+    const value = response.headers.get('X-Pow-Token');
+    const token = value ? decodeAccessToken(value) : null;
+    if (value && token) {
+      this.accessTokens.set(scope, { value, expires: token.expires, remaining: token.budget });
+    }
+  }
+
+  /**
+   * Learns how far the local clock is from the Worker's, from X-Pow-Server-Time
+   * @param response Response from the Worker or server
+   * @param fallbackToDate Use the Date header, accurate to a second, when X-Pow-Server-Time is missing
+   */
+  private updateClockOffset(response: Response, fallbackToDate: boolean = false): void {
+    const serverTimeHeader = response.headers.get('X-Pow-Server-Time');
+    const serverTime = serverTimeHeader
+      ? Number(serverTimeHeader)
+      : fallbackToDate ? Date.parse(response.headers.get('Date') || '') : NaN;
+
+    if (Number.isFinite(serverTime)) {
+      this.clockOffset = serverTime - Date.now();
+    }
+  }
+
+  /**
+   * Gets the offset applied to the local clock when generating timestamps
+   * @returns Milliseconds the Worker's clock is ahead of the local one (negative if behind)
+   */
+  getClockOffset(): number {
+    return this.clockOffset;
+  }
+
+  /**
+   * Throws the error carried by a PoW Shield error response when `client.throwOnError` is set
+   * @param response Response from the Worker or server
+   * @returns The response, if it is not thrown
+   */
+  private async checkResponse(response: Response): Promise<Response> {
+    if (this.config.client?.throwOnError) {
+      const error = await parsePowError(response);
+      if (error) {
+        throw error;
+      }
+    }
+    return response;
+  }
+
+  /**
+   * Fetches a server-issued challenge
+   * @param baseUrl URL of the site serving the challenge route
+   * @param signal Aborts the request
+   * @returns Signed challenge
+   */
+  async getChallenge(baseUrl: string, signal?: AbortSignal): Promise<PowChallenge> {
+    const challengeUrl = new URL(this.config.challenge?.path || '/pow-challenge', baseUrl);
+    const response = await fetch(challengeUrl.toString(), { method: 'GET', signal });
+
+    if (!response.ok) {
+      throw await parsePowError(response) ?? new Error(`Failed to fetch PoW challenge: ${response.status}`);
+    }
+    this.updateClockOffset(response);
+
+    return response.json();
+  }
+
+  /**
+   * Generates a valid PoW stamp. Nonces are a random prefix followed by a
+   * counter, so no nonce is tried twice and the search runs until it succeeds,
+   * the time budget runs out or the signal aborts.
    * @param endpoint API endpoint
    * @param timestamp Current timestamp
    * @param context Request context
-   * @returns Valid nonce and stamp
+   * @param difficulty Number of leading zero bits required
+   * @param challenge Server-issued challenge, if any
+   * @param request Request details to bind the stamp to, if any
+   * @param control Abort signal, time budget and progress callback
+   * @returns Valid nonce and stamp, and the number of hashes computed
    */
   private async generateValidPow(
     endpoint: string,
     timestamp: string,
-    context: string
-  ): Promise<{ nonce: string; stamp: string }> {
-    const difficulty = this.config.difficulty || 4;
-    const maxRetries = this.config.client?.maxRetries || 5;
-    
+    context: string,
+    difficulty: number,
+    challenge?: PowChallenge,
+    request?: RequestBinding,
+    control: Pick<PowHeaderOptions, 'signal' | 'timeoutMs' | 'onProgress'> = {}
+  ): Promise<PowSolution> {
+    const { signal, onProgress } = control;
+    const timeout = control.timeoutMs ?? this.config.client?.solveTimeout;
+    const expectedAttempts = Math.pow(2, difficulty);
+    const memoryHard = this.config.algorithm === 'scrypt'; // Each hash takes milliseconds, so hash one per batch
+    const stampInput = (nonce: string) => buildStampInput({ endpoint, timestamp, nonce, context, request, seed: challenge?.seed });
+
+    // One signal for both the caller's abort and the time budget
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    if (signal?.aborted) {
+      abort();
+    }
+    signal?.addEventListener('abort', abort);
+    const timer = timeout ? setTimeout(abort, timeout) : undefined;
+
+    const startedAt = Date.now();
+    let reportedAt = startedAt;
     let attempts = 0;
-    
-    while (attempts < maxRetries * 100) { // Set a maximum to prevent infinite loops
-      attempts++;
-      
-      // Generate a random nonce
-      const nonce = CryptoUtils.generateNonce();
-      
-      // Compute hash
-      const dataToHash = `${endpoint}:${timestamp}:${nonce}:${context}`;
-      const stamp = CryptoUtils.sha256(dataToHash);
-      
-      // Check if the hash has the required number of leading zeros
-      if (CryptoUtils.hasLeadingZeros(stamp, difficulty)) {
-        return { nonce, stamp };
+
+    const report = (total: number) => {
+      attempts = total;
+      const now = Date.now();
+      if (!onProgress || now - reportedAt < PROGRESS_INTERVAL) {
+        return;
+      }
+      reportedAt = now;
+
+      const elapsed = now - startedAt;
+      const hashrate = elapsed > 0 ? attempts / elapsed * 1000 : 0; // Per second
+      onProgress({
+        attempts,
+        hashrate,
+        elapsed,
+        estimatedRemaining: hashrate > 0 ? Math.max(0, expectedAttempts - attempts) / hashrate * 1000 : Infinity
+      });
+    };
+
+    try {
+      // Search on worker threads at higher difficulties, and always for scrypt, falling back to the inline loop
+      const workers = this.config.client?.workers;
+      if (workers !== 0 && (memoryHard || difficulty >= (this.config.client?.workerMinDifficulty ?? 12))) {
+        const input = stampInput(NONCE_MARKER);
+        const markerIndex = input.indexOf(NONCE_MARKER);
+        const solution = await solveInWorkers({
+          prefix: input.slice(0, markerIndex),
+          suffix: input.slice(markerIndex + NONCE_MARKER.length),
+          difficulty,
+          scrypt: memoryHard ? getScryptParams(this.config) : undefined
+        }, {
+          threads: workers,
+          signal: controller.signal,
+          onAttempts: report
+        });
+
+        if (solution) {
+          return solution;
+        }
       }
-      
-      // If we've hit a retry boundary, pause briefly to not block the main thread
-      if (attempts % 100 === 0) {
+
+      const noncePrefix = CryptoUtils.generateNonce();
+
+      while (!controller.signal.aborted) {
+        // Hash a batch of consecutive nonces at once
+        const nonces = Array.from({ length: memoryHard ? 1 : SOLVE_BATCH_SIZE }, (_, i) => noncePrefix + (attempts + i).toString(16));
+        const stamps = memoryHard
+          ? nonces.map(nonce => computeStamp(stampInput(nonce), this.config))
+          : await CryptoUtils.sha256Batch(nonces.map(stampInput));
+
+        // Check if any hash has the required number of leading zeros
+        const index = stamps.findIndex(stamp => CryptoUtils.hasLeadingZeros(stamp, difficulty));
+        if (index !== -1) {
+          return { nonce: nonces[index], stamp: stamps[index], attempts: attempts + index + 1 };
+        }
+        report(attempts + nonces.length);
+
+        // Pause briefly between batches to not block the main thread
         await new Promise(resolve => setTimeout(resolve, 0));
       }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        throw error;
+      }
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
     }
-    
-    throw new Error(`Failed to generate valid PoW after ${attempts} attempts`);
+
+    if (signal?.aborted) {
+      throw new PowAbortError('aborted', attempts, expectedAttempts);
+    }
+    throw new PowAbortError('timeout', attempts, expectedAttempts,
+      `PoW solving timed out after ${timeout} ms: ${attempts} attempts made, about ${expectedAttempts} expected`);
+  }
+
+  /**
+   * Gets the difficulty to solve for before any hint from the Worker
+   * @param endpoint API endpoint
+   * @param method HTTP method
+   * @param challenge Server-issued challenge, if any
+   * @returns Difficulty of the endpoint rule or the challenge, whichever is higher
+   */
+  private getBaseDifficulty(endpoint: string, method: string, challenge?: PowChallenge): number {
+    const rule = findEndpointRule(this.config, endpoint, method);
+    const ruleDifficulty = rule ? rule.difficulty : (this.config.difficulty || 4);
+
+    return Math.max(ruleDifficulty, challenge?.difficulty ?? 0);
+  }
+
+  /**
+   * Computes the request details a stamp is bound to in 'request' binding mode.
+   * The body is serialized once so the bytes that are hashed are the bytes that are sent.
+   * @param url Request URL
+   * @param options Fetch options
+   * @returns Request binding, serialized body and the content type derived from it
+   */
+  private async getRequestBinding(
+    url: URL,
+    options: RequestInit
+  ): Promise<{ request: RequestBinding; body: Uint8Array | undefined; contentType: string | null }> {
+    const method = (options.method || 'GET').toUpperCase();
+    const query = canonicalizeQuery(url.search);
+
+    if (options.body === undefined || options.body === null) {
+      return {
+        request: { method, query, bodyHash: CryptoUtils.sha256Bytes(new Uint8Array(0)) },
+        body: undefined,
+        contentType: null
+      };
+    }
+
+    // Let the Fetch API encode the body (strings, forms, blobs, streams) the way fetch would
+    const serialized = new Request(url.toString(), {
+      method,
+      body: options.body,
+      duplex: 'half'
+    } as RequestInit);
+    const body = new Uint8Array(await serialized.arrayBuffer());
+
+    return {
+      request: { method, query, bodyHash: CryptoUtils.sha256Bytes(body) },
+      body,
+      contentType: serialized.headers.get('Content-Type')
+    };
   }
 
   /**
@@ -111,30 +558,45 @@ export class PowClient {
     const userAgent = typeof navigator !== 'undefined' ? navigator.userAgent : 'unknown';
     return CryptoUtils.generateContext(userAgent, undefined, this.config.contextGenerator);
   }
+}
 
-  /**
-   * Checks if an endpoint is in the protected list
-   * @param endpoint Endpoint to check
-   * @returns True if the endpoint is protected
-   */
-  private isProtectedEndpoint(endpoint: string): boolean {
-    if (!this.config.endpoints || this.config.endpoints.length === 0) {
-      return false;
+/**
+ * Checks if a request body can be sent more than once. Streams and other
+ * iterables are read as they are sent; everything else fetch accepts is kept.
+ * @param body Request body
+ * @returns True if the body can be resent
+ */
+function isReplayableBody(body: RequestInit['body'] | undefined): boolean {
+  return body === undefined || body === null ||
+    typeof body === 'string' ||
+    body instanceof ArrayBuffer ||
+    ArrayBuffer.isView(body) ||
+    (typeof Blob !== 'undefined' && body instanceof Blob) ||
+    (typeof FormData !== 'undefined' && body instanceof FormData) ||
+    (typeof URLSearchParams !== 'undefined' && body instanceof URLSearchParams);
+}
+
+/**
+ * Waits before a retry
+ * @param ms Milliseconds to wait
+ * @param signal Stops waiting
+ * @returns Promise resolved after the delay, or rejected with the abort reason
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
     }
-    
-    return this.config.endpoints.some(protectedEndpoint => {
-      // Exact match
-      if (endpoint === protectedEndpoint) {
-        return true;
-      }
-      
-      // Wildcard match (e.g., /api/*)
-      if (protectedEndpoint.endsWith('*')) {
-        const prefix = protectedEndpoint.slice(0, -1);
-        return endpoint.startsWith(prefix);
-      }
-      
-      return false;
-    });
-  }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
\ No newline at end of file
@@ -1,164 +1,601 @@
 import type { PowShieldConfig } from './config.js';
 import { validateAndMergeConfig } from './config.js';
 import { CryptoUtils } from './utils/crypto.js';
-import { LRUCache } from 'lru-cache';
+import type { PowVerificationFailure } from './verifier.js';
+import { PowVerifier, toErrorBody } from './verifier.js';
+import { createChallenge, encodeChallenge } from './challenge.js';
+import type { RequestBinding } from './utils/stamp.js';
+import { buildStampInput, canonicalizeQuery } from './utils/stamp.js';
+import { buildSigningString } from './utils/signing.js';
+import type { PowShieldBindings } from './nonce-store.js';
+import { createNonceStore } from './nonce-store.js';
+import type { RateLimiter } from './rate-limiter.js';
+import { createRateLimiter } from './rate-limiter.js';
+import type { RateLimitResult } from './utils/rate-limit.js';
+import { rateLimitHeaders } from './utils/rate-limit.js';
+import { AdaptiveDifficulty } from './adaptive-difficulty.js';
+import type { ResolvedEndpointRule } from './rules.js';
+import { findEndpointRule } from './rules.js';
+import type { OriginSigner } from './origin-signature.js';
+import { createOriginSigner } from './origin-signature.js';
+import { formatDifficulty } from './utils/difficulty.js';
+import { PowErrorCode } from './errors.js';
+import { createAccessToken, createClearanceToken, decodeAccessToken, encodeAccessToken, verifyClearanceToken } from './token.js';
+import { getBrowserSolver } from './solver.js';
+import { buildClearanceCookie, getCookie, isNavigation, renderInterstitialPage } from './interstitial.js';
+
+// Stands in for the nonce while splitting a stamp input into the prefix and suffix the page hashes around it
+const NONCE_MARKER = '\u0000nonce\u0000';
+
+/**
+ * Outcome of validating a request at the edge
+ */
+export type PowCloudflareResult =
+  | { action: 'reject'; response: Response }    // Validation failed, return this response to the client
+  | { action: 'respond'; response: Response }   // Request answered by the Worker itself (e.g. a challenge)
+  | { action: 'forward'; request: Request; rateLimit?: RateLimitResult; difficulty?: number; token?: string }; // Validation passed, send this request to the origin
+
+/**
+ * Function used to send a forwarded request to the origin
+ */
+export type OriginFetch = (request: Request) => Promise<Response>;
 
 export class PowCloudflare {
   private config: PowShieldConfig;
-  private nonceCache: LRUCache<string, boolean>;
+  private rateLimiter: RateLimiter;
+  private adaptiveDifficulty: AdaptiveDifficulty | null = null;
+  private verifier: PowVerifier;
+  private signer: OriginSigner;
 
-  constructor(config: Partial<PowShieldConfig>) {
+  /**
+   * @param config Configuration
+   * @param bindings Env bindings for the 'kv' and 'durableObject' cache types
+   */
+  constructor(config: Partial<PowShieldConfig>, bindings: PowShieldBindings = {}) {
     this.config = validateAndMergeConfig(config, 'cloudflare');
     
-    // Initialize nonce cache
-    this.nonceCache = new LRUCache({
-      max: this.config.cacheSize || 10000,
-      ttl: (this.config.timestampTolerance || 30) * 1000 // Convert to milliseconds
-    });
+    // Nonces go to the store selected by cacheType
+    this.verifier = new PowVerifier(this.config, createNonceStore(this.config, bindings));
+
+    // Requests passed on to the origin are signed with the shared secret or the private key
+    this.signer = createOriginSigner(this.config);
+
+    // Rate limit counters use the same storage
+    this.rateLimiter = createRateLimiter(this.config, bindings);
+
+    if (this.config.adaptiveDifficulty?.enabled) {
+      this.adaptiveDifficulty = new AdaptiveDifficulty(this.config);
+    }
+  }
+
+  /**
+   * Validates a request and forwards it to the origin if it passes
+   * @param request Incoming request
+   * @param originFetch Function used to reach the origin (default: global fetch)
+   * @returns Rejection response or the origin's response
+   */
+  async protect(request: Request, originFetch: OriginFetch = req => fetch(req)): Promise<Response> {
+    const result = await this.handleRequest(request);
+
+    if (result.action !== 'forward') {
+      return result.response;
+    }
+
+    const response = await originFetch(result.request);
+    if (!result.rateLimit && result.difficulty === undefined && !result.token) {
+      return response;
+    }
+
+    // Tell the client how much of its allowance is left and the difficulty currently required
+    const withHeaders = new Response(response.body, response);
+    if (result.rateLimit) {
+      for (const [name, value] of Object.entries(rateLimitHeaders(result.rateLimit))) {
+        withHeaders.headers.set(name, value);
+      }
+    }
+    if (result.difficulty !== undefined) {
+      withHeaders.headers.set('X-Pow-Difficulty', formatDifficulty(result.difficulty));
+    }
+    if (result.token) {
+      withHeaders.headers.set('X-Pow-Token', result.token);
+    }
+    return withHeaders;
   }
 
   /**
    * Handles an incoming request
    * @param request Incoming request
-   * @returns Response or null if request should be passed to origin
+   * @returns Response to return to the client, or the request to forward to the origin
    */
-  async handleRequest(request: Request): Promise<Response | null> {
+  async handleRequest(request: Request): Promise<PowCloudflareResult> {
     const url = new URL(request.url);
     const endpoint = url.pathname;
 
-    // Check if this endpoint is protected
-    if (!this.isProtectedEndpoint(endpoint)) {
-      // If not protected, pass through to origin
-      return null;
+    // Serve challenges when challenge mode is enabled
+    if (this.config.challenge?.enabled && endpoint === this.config.challenge.path && request.method === 'GET') {
+      return { action: 'respond', response: this.challengeResponse() };
     }
 
-    // Extract PoW headers
-    const timestamp = request.headers.get('X-Timestamp');
-    const nonce = request.headers.get('X-Nonce');
-    const context = request.headers.get('X-Context');
-    const stamp = request.headers.get('X-Stamp');
+    // Exchange stamps solved by the interstitial page for a clearance cookie
+    if (this.config.interstitial?.enabled && endpoint === this.config.interstitial.path && request.method === 'POST') {
+      return this.handleInterstitial(request, url);
+    }
 
-    // Check if all required headers are present
-    if (!timestamp || !nonce || !context || !stamp) {
-      return new Response('Missing PoW headers', { status: 400 });
+    // Check if this endpoint is protected
+    const rule = findEndpointRule(this.config, endpoint, request.method);
+    if (!rule) {
+      // If not protected, pass through to origin unchanged
+      return { action: 'forward', request };
     }
 
-    // Validate timestamp
-    const now = Math.floor(Date.now() / 1000);
-    const timestampNum = parseInt(timestamp, 10);
-    const tolerance = this.config.timestampTolerance || 30;
+    const clientIp = request.headers.get('CF-Connecting-IP') || '';
 
-    if (isNaN(timestampNum) || now - timestampNum > tolerance) {
-      return new Response('Timestamp expired or invalid', { status: 403 });
+    // Apply rate limiting if enabled. This comes before verification, so clients over the
+    // limit cannot make the Worker hash their bodies or compute (scrypt) stamps.
+    let rateLimit: RateLimitResult | undefined;
+    if (this.config.cloudflare?.rateLimiting) {
+      rateLimit = await this.checkRateLimit(clientIp, rule);
+
+      if (!rateLimit.allowed) {
+        return this.reject(
+          { status: 429, code: PowErrorCode.RateLimited, message: 'Rate limit exceeded' },
+          rateLimitHeaders(rateLimit)
+        );
+      }
     }
 
-    // Check for nonce replay
-    const nonceKey = `${timestamp}:${nonce}`;
-    if (this.nonceCache.has(nonceKey)) {
-      return new Response('Nonce already used', { status: 403 });
+    // Method, query and body digest are needed for request-bound stamps and v2 signatures.
+    // Request-bound stamps cover the body, so it is hashed before verifying them; otherwise only after.
+    const hmacVersion = this.config.hmacVersion || 'v2';
+    let binding: RequestBinding | undefined;
+    if (this.config.stampBinding === 'request') {
+      const result = await this.getRequestBinding(request, url);
+      if ('status' in result) {
+        return this.reject(result);
+      }
+      binding = result;
     }
 
-    // Validate PoW stamp
-    const dataToHash = `${endpoint}:${timestamp}:${nonce}:${context}`;
-    const validStamp = CryptoUtils.sha256(dataToHash);
+    // Raise the required difficulty under load or after repeated failures.
+    // Load adds up across all paths of a rule. Failures are only counted per IP: X-Context is
+    // set by the client and shared by every user of a browser, so anyone could raise it for them.
+    let difficulty = rule.difficulty;
+    const clientKeys = [`ip:${clientIp}`];
+    if (this.adaptiveDifficulty) {
+      this.adaptiveDifficulty.recordRequest(rule.pattern);
+      difficulty = this.adaptiveDifficulty.getDifficulty(rule.pattern, clientKeys, rule.difficulty);
+    }
 
-    if (validStamp !== stamp) {
-      return new Response('Invalid PoW stamp', { status: 403 });
+    // Browsers cleared by the interstitial page send a cookie instead of PoW headers.
+    // Navigations without one get the page; other requests are verified as usual.
+    let cleared: Record<string, string> | null = null;
+    if (this.config.interstitial?.enabled && !request.headers.has('X-Stamp') && !request.headers.has('X-Pow-Token')) {
+      cleared = await this.checkClearance(request);
+      if (!cleared && isNavigation(request)) {
+        return { action: 'respond', response: this.interstitialResponse(request, url, difficulty) };
+      }
     }
+    const getHeader = (name: string) => cleared?.[name] ?? request.headers.get(name);
 
-    // Check difficulty
-    const difficulty = this.config.difficulty || 4;
-    if (!CryptoUtils.hasLeadingZeros(stamp, difficulty)) {
-      return new Response('Insufficient PoW difficulty', { status: 403 });
+    // Verify the PoW stamp, or the access token sent in its place, and record the nonce
+    const tokenHeader = this.config.token?.enabled ? request.headers.get('X-Pow-Token') : null;
+    let failure: PowVerificationFailure | null = null;
+    if (tokenHeader) {
+      failure = await this.verifyToken(tokenHeader, request, endpoint, rule);
+    } else if (!cleared) {
+      failure = await this.verifier.verify({
+        endpoint,
+        getHeader: name => request.headers.get(name),
+        request: binding,
+        difficulty,
+        timestampTolerance: rule.timestampTolerance
+      });
     }
 
-    // Record nonce to prevent replay
-    this.nonceCache.set(nonceKey, true);
+    if (failure) {
+      if (!this.adaptiveDifficulty) {
+        return this.reject(failure);
+      }
 
-    // Apply rate limiting if enabled
-    if (this.config.cloudflare?.rateLimiting) {
-      const clientIp = request.headers.get('CF-Connecting-IP') || '';
-      const limitExceeded = await this.checkRateLimit(clientIp);
-      
-      if (limitExceeded) {
-        return new Response('Rate limit exceeded', { status: 429 });
+      // Clients cannot know the raised difficulty in advance, so too-easy stamps do not count as failures.
+      // Neither do tokens that ran out, which clients replace by solving again.
+      if (failure.code !== PowErrorCode.Difficulty && failure.code !== PowErrorCode.TokenInvalid) {
+        this.adaptiveDifficulty?.recordFailure(clientKeys);
       }
+      return this.reject(failure, { 'X-Pow-Difficulty': formatDifficulty(difficulty) });
+    }
+
+    if (!binding && hmacVersion === 'v2') {
+      const result = await this.getRequestBinding(request, url);
+      if ('status' in result) {
+        return this.reject(result);
+      }
+      binding = result;
     }
 
     // Generate HMAC signature for origin validation
-    const hmacData = `${timestamp}:${nonce}:${context}`;
-    const hmacSignature = CryptoUtils.hmac(
-      hmacData, 
-      this.config.secret || '', 
-      this.config.hmacAlgorithm
-    );
+    const hmacData = buildSigningString(hmacVersion, {
+      endpoint,
+      timestamp: getHeader('X-Timestamp') || '',
+      nonce: getHeader('X-Nonce') || '',
+      context: getHeader('X-Context') || '',
+      request: binding
+    });
+    const signature = await this.signer.sign(hmacData);
 
-    // Create a new request with the HMAC header
+    // Create a new request with the HMAC headers
     const modifiedHeaders = new Headers(request.headers);
-    modifiedHeaders.set('X-HMAC', hmacSignature);
-
-    // Create and return a new request to be sent to the origin
-    const modifiedRequest = new Request(request.url, {
-      method: request.method,
-      headers: modifiedHeaders,
-      body: request.body,
-      redirect: request.redirect
+    for (const [name, value] of Object.entries(cleared || {})) {
+      modifiedHeaders.set(name, value);
+    }
+    modifiedHeaders.set(this.signer.header, signature.value);
+    modifiedHeaders.set('X-HMAC-Version', hmacVersion);
+    if (signature.keyId) {
+      modifiedHeaders.set('X-HMAC-Key-Id', signature.keyId);
+    } else {
+      // A key ID supplied by the client would point the origin at the wrong secret
+      modifiedHeaders.delete('X-HMAC-Key-Id');
+    }
+    if (binding) {
+      modifiedHeaders.set('X-Content-Digest', binding.bodyHash);
+    }
+
+    // Create a new request to be sent to the origin, keeping method, body and redirect mode
+    const modifiedRequest = new Request(request, {
+      headers: modifiedHeaders
     });
 
-    // Return null to indicate that the request should be passed to the origin
-    // with the modified headers
+    // A solved stamp earns a token the client can send instead of solving again
+    const token = this.config.token?.enabled && !tokenHeader && !cleared
+      ? encodeAccessToken(createAccessToken(this.config, request.headers.get('X-Context') || '', rule.pattern))
+      : undefined;
+
+    return {
+      action: 'forward',
+      request: modifiedRequest,
+      rateLimit,
+      difficulty: this.adaptiveDifficulty ? difficulty : undefined,
+      token
+    };
+  }
+
+  /**
+   * Verifies a request sent with an access token and counts it against the token's budget
+   * @param value X-Pow-Token header value
+   * @param request Incoming request
+   * @param endpoint Request path
+   * @param rule Endpoint rule protecting the request
+   * @returns Failure, or null if the request may proceed
+   */
+  private async verifyToken(
+    value: string,
+    request: Request,
+    endpoint: string,
+    rule: ResolvedEndpointRule
+  ): Promise<PowVerificationFailure | null> {
+    const token = decodeAccessToken(value);
+    if (!token) {
+      return { status: 403, code: PowErrorCode.TokenInvalid, message: 'Access token expired or invalid' };
+    }
+
+    const failure = await this.verifier.verifyToken({
+      endpoint,
+      getHeader: name => request.headers.get(name),
+      timestampTolerance: rule.timestampTolerance
+    }, token, rule.pattern);
+    if (failure) {
+      return failure;
+    }
+
+    // Counted in the rate limit storage, so the budget is shared as widely as the rate limits are
+    const usage = await this.rateLimiter.consume(`token:${token.id}`, {
+      limit: token.budget,
+      window: this.config.token?.ttl || 300,
+      algorithm: 'fixedWindow'
+    });
+    if (!usage.allowed) {
+      return { status: 403, code: PowErrorCode.TokenInvalid, message: 'Access token used up' };
+    }
+
     return null;
   }
 
   /**
-   * Checks if an endpoint is in the protected list
-   * @param endpoint Endpoint to check
-   * @returns True if the endpoint is protected
+   * Checks the clearance cookie of a request and counts the request against its budget
+   * @param request Incoming request
+   * @returns Headers to forward in place of PoW headers, or null if the cookie is missing, invalid or used up
    */
-  private isProtectedEndpoint(endpoint: string): boolean {
-    if (!this.config.endpoints || this.config.endpoints.length === 0) {
-      return false;
+  private async checkClearance(request: Request): Promise<Record<string, string> | null> {
+    const interstitial = this.config.interstitial || {};
+    const value = getCookie(request, interstitial.cookieName || 'pow_clearance');
+    const token = value ? decodeAccessToken(value) : null;
+
+    // Bound to the context the Worker derives itself, since the browser sends no X-Context with navigations
+    const context = this.getClientContext(request);
+    if (!token || !verifyClearanceToken(token, this.config, context)) {
+      return null;
     }
-    
-    return this.config.endpoints.some(protectedEndpoint => {
-      // Exact match
-      if (endpoint === protectedEndpoint) {
-        return true;
+
+    const usage = await this.rateLimiter.consume(`clearance:${token.id}`, {
+      limit: token.budget,
+      window: interstitial.ttl || 3600,
+      algorithm: 'fixedWindow'
+    });
+    if (!usage.allowed) {
+      return null;
+    }
+
+    // The origin checks the signature over these like any other forwarded request
+    return {
+      'X-Timestamp': Math.floor(Date.now() / 1000).toString(),
+      'X-Nonce': CryptoUtils.generateNonce(),
+      'X-Context': context
+    };
+  }
+
+  /**
+   * Builds the interstitial page for a navigation to a protected page
+   * @param request Incoming request
+   * @param url Parsed request URL
+   * @param difficulty Difficulty required for the page
+   * @returns HTML response
+   */
+  private interstitialResponse(request: Request, url: URL, difficulty: number): Response {
+    const returnUrl = url.pathname + url.search;
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const context = this.getClientContext(request);
+    const challenge = this.config.challenge?.enabled ? createChallenge(this.config) : undefined;
+
+    const headers: Record<string, string> = {
+      'X-Timestamp': timestamp,
+      'X-Context': context,
+      'X-Pow-Algorithm': this.config.algorithm || 'sha256'
+    };
+    if (challenge) {
+      headers['X-Challenge'] = encodeChallenge(challenge);
+    }
+
+    // The stamp is solved for a GET of the page, which is what the verify route checks it against
+    const input = buildStampInput({
+      endpoint: url.pathname,
+      timestamp,
+      nonce: NONCE_MARKER,
+      context,
+      request: this.config.stampBinding === 'request' ? this.getNavigationBinding(url) : undefined,
+      seed: challenge?.seed
+    });
+    const markerIndex = input.indexOf(NONCE_MARKER);
+    const solver = getBrowserSolver({
+      prefix: input.slice(0, markerIndex),
+      suffix: input.slice(markerIndex + NONCE_MARKER.length),
+      difficulty: Math.max(difficulty, challenge?.difficulty ?? 0)
+    });
+
+    const page = renderInterstitialPage({
+      source: solver.source,
+      search: solver.task,
+      headers,
+      verifyUrl: `${this.config.interstitial?.path || '/pow-interstitial'}?return=${encodeURIComponent(returnUrl)}`,
+      returnUrl
+    });
+
+    return new Response(page, {
+      status: 403,
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Cache-Control': 'no-store',
+        'X-Pow-Server-Time': String(Date.now())
       }
-      
-      // Wildcard match (e.g., /api/*)
-      if (protectedEndpoint.endsWith('*')) {
-        const prefix = protectedEndpoint.slice(0, -1);
-        return endpoint.startsWith(prefix);
+    });
+  }
+
+  /**
+   * Verifies a stamp solved by the interstitial page and sets the clearance cookie
+   * @param request Request from the interstitial page
+   * @param url Parsed request URL, with the page to return to in its query
+   * @returns Empty response setting the cookie, or a rejection
+   */
+  private async handleInterstitial(request: Request, url: URL): Promise<PowCloudflareResult> {
+    // Only pages on this origin that the Worker protects can be returned to
+    const target = new URL(url.searchParams.get('return') || '', url.origin);
+    const rule = target.origin === url.origin ? findEndpointRule(this.config, target.pathname, 'GET') : null;
+    if (!rule) {
+      return this.reject({ status: 400, code: PowErrorCode.MissingHeaders, message: 'Missing or unprotected return path' });
+    }
+
+    const clientIp = request.headers.get('CF-Connecting-IP') || '';
+    if (this.config.cloudflare?.rateLimiting) {
+      const rateLimit = await this.checkRateLimit(clientIp, rule);
+      if (!rateLimit.allowed) {
+        return this.reject(
+          { status: 429, code: PowErrorCode.RateLimited, message: 'Rate limit exceeded' },
+          rateLimitHeaders(rateLimit)
+        );
       }
-      
-      return false;
+    }
+
+    let difficulty = rule.difficulty;
+    if (this.adaptiveDifficulty) {
+      const clientKeys = [`ip:${clientIp}`];
+      difficulty = this.adaptiveDifficulty.getDifficulty(rule.pattern, clientKeys, rule.difficulty);
+    }
+
+    const failure = await this.verifier.verify({
+      endpoint: target.pathname,
+      getHeader: name => request.headers.get(name),
+      request: this.getNavigationBinding(target),
+      difficulty,
+      timestampTolerance: rule.timestampTolerance
     });
+    if (failure) {
+      return this.reject(failure);
+    }
+
+    const interstitial = this.config.interstitial || {};
+    const token = createClearanceToken(this.config, this.getClientContext(request));
+
+    return {
+      action: 'respond',
+      response: new Response(null, {
+        status: 204,
+        headers: {
+          'Set-Cookie': buildClearanceCookie(
+            interstitial.cookieName || 'pow_clearance',
+            encodeAccessToken(token),
+            interstitial.ttl || 3600,
+            url.protocol === 'https:'
+          ),
+          'Cache-Control': 'no-store'
+        }
+      })
+    };
   }
 
   /**
-   * Checks if a client has exceeded their rate limit
-   * @param clientIp Client IP address
-   * @returns True if rate limit exceeded
+   * Derives the client context from the request, the way clients derive X-Context
+   * @param request Incoming request
+   * @returns Client context
    */
-  private async checkRateLimit(clientIp: string): Promise<boolean> {
-    // Simple implementation using the LRU cache
-    // In a production environment, you might want to use Cloudflare's Workers KV or Durable Objects
-    
-    const requestsPerMinute = this.config.cloudflare?.requestsPerMinute || 30;
-    const rateKey = `rate:${clientIp}`;
-    
-    const currentCount = (this.nonceCache.get(rateKey) as number | undefined) || 0;
-    
-    if (currentCount >= requestsPerMinute) {
-      return true; // Rate limit exceeded
+  private getClientContext(request: Request): string {
+    return CryptoUtils.generateContext(
+      request.headers.get('User-Agent') || '',
+      request.headers.get('CF-Connecting-IP') || undefined,
+      this.config.contextGenerator
+    );
+  }
+
+  /**
+   * Builds the request binding of a bodiless GET, as navigated to by a browser
+   * @param url Page URL
+   * @returns Request binding
+   */
+  private getNavigationBinding(url: URL): RequestBinding {
+    return {
+      method: 'GET',
+      query: canonicalizeQuery(url.search),
+      bodyHash: CryptoUtils.sha256Bytes(new Uint8Array(0))
+    };
+  }
+
+  /**
+   * Collects the method, canonical query and body digest of a request.
+   * The body is read from a clone so the original stream can still be forwarded.
+   * @param request Incoming request
+   * @param url Parsed request URL
+   * @returns Request binding, or a 413 failure if the body is over `maxBodySize`
+   */
+  private async getRequestBinding(request: Request, url: URL): Promise<RequestBinding | PowVerificationFailure> {
+    const body = await this.readBody(request);
+    if (!body) {
+      return { status: 413, code: PowErrorCode.BodyTooLarge, message: 'Request body too large' };
     }
-    
-    // Increment count
-    this.nonceCache.set(rateKey, (currentCount + 1) as any, {
-        ttl: 60 * 1000 // 1 minute TTL for rate limiting 
+
+    return {
+      method: request.method.toUpperCase(),
+      query: canonicalizeQuery(url.search),
+      bodyHash: CryptoUtils.sha256Bytes(body)
+    };
+  }
+  /**
+   * Reads the body of a request from a clone, up to `maxBodySize` bytes.
+   * Content-Length is checked first, and the read stops once the limit is passed,
+   * since Content-Length can be missing or wrong.
+   * @param request Incoming request
+   * @returns Body bytes, or null if the body is too large
+   */
+  private async readBody(request: Request): Promise<Uint8Array | null> {
+    const limit = this.config.cloudflare?.maxBodySize ?? 1048576;
+    if (Number(request.headers.get('Content-Length')) > limit) {
+      return null;
+    }
+
+    const stream = request.clone().body;
+    if (!stream) {
+      return new Uint8Array(0);
+    }
+
+    const reader = stream.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      size += value.length;
+      if (size > limit) {
+        // Not awaited: cancelling one branch of a teed body only settles once the other is cancelled too
+        reader.cancel().catch(() => {});
+        return null;
+      }
+      chunks.push(value);
+    }
+
+    const body = new Uint8Array(size);
+    let offset = 0;
+    for (const chunk of chunks) {
+      body.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return body;
+  }
+
+
+  /**
+   * Builds a response carrying a freshly signed challenge
+   * @returns Challenge response
+   */
+  private challengeResponse(): Response {
+    return new Response(JSON.stringify(createChallenge(this.config)), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store',
+        'X-Pow-Server-Time': String(Date.now())
+      }
+    });
+  }
+
+  /**
+   * Builds a rejection result with a JSON error body. The server time lets
+   * clients with wrong clocks correct their timestamps before retrying.
+   * @param failure Status, error code and message
+   * @param headers Additional response headers
+   * @returns Rejection result
+   */
+  private reject(failure: PowVerificationFailure, headers?: Record<string, string>): PowCloudflareResult {
+    return {
+      action: 'reject',
+      response: new Response(JSON.stringify(toErrorBody(failure)), {
+        status: failure.status,
+        headers: { ...headers, 'Content-Type': 'application/json', 'X-Pow-Server-Time': String(Date.now()) }
+      })
+    };
+  }
+
+  /**
+   * Counts a request against the client's rate limit
+   * @param clientIp Client IP address
+   * @param rule Endpoint rule protecting the request
+   * @returns Outcome, including whether the request is allowed
+   */
+  private async checkRateLimit(clientIp: string, rule: ResolvedEndpointRule): Promise<RateLimitResult> {
+    const cloudflareConfig = this.config.cloudflare || {};
+    const algorithm = cloudflareConfig.rateLimitAlgorithm || 'fixedWindow';
+
+    // Rules with their own limit get a separate counter per IP
+    if (rule.requestsPerMinute !== undefined) {
+      return this.rateLimiter.consume(`${clientIp}:${rule.pattern}`, {
+        limit: rule.requestsPerMinute,
+        window: 60,
+        algorithm
       });
-    
-    return false;
+    }
+
+    return this.rateLimiter.consume(clientIp, {
+      limit: cloudflareConfig.requestsPerMinute || 30,
+      window: 60,
+      algorithm
+    });
   }
-}
\ No newline at end of file
+}
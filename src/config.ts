@@ -1,14 +1,85 @@
+import { compilePattern } from './utils/matcher.js';
+import { toEndpointRule } from './rules.js';
+import type { ScryptParams } from './utils/scrypt.js';
+import { validateScryptParams } from './utils/scrypt.js';
+import type { SignatureAlgorithm, SignatureKey } from './origin-signature.js';
+
+/**
+ * Protection settings for endpoints matching a pattern
+ */
+export interface EndpointRule {
+  pattern: string | RegExp;      // Path pattern (e.g. /api/*, /users/:id, /api/**/export) or regular expression
+  regex?: boolean;               // Treat a string pattern as a regular expression (default: false)
+  exclude?: boolean;             // Leave matching requests unprotected, wherever the rule is listed (default: false)
+  methods?: string[];            // Methods the rule applies to (default: all)
+  difficulty?: number;           // Overrides difficulty
+  timestampTolerance?: number;   // Overrides timestampTolerance
+  requestsPerMinute?: number;    // Rate limit per IP for this rule, counted separately (Cloudflare only)
+}
+
+/**
+ * HMAC secret identified by an ID, so secrets can be rotated without downtime
+ */
+export interface HmacKey {
+  id: string;                    // Sent as X-HMAC-Key-Id so the origin knows which secret signed a request
+  secret: string;                // Shared HMAC secret
+  notAfter?: number;             // Unix timestamp (seconds) after which the key is no longer used or accepted
+}
+
 /**
  * Configuration options for the PoW Shield package
  */
 export interface PowShieldConfig {
   // Core options (required in at least one of these)
-  endpoints?: string[];          // List of endpoints to protect
+  endpoints?: (string | RegExp | EndpointRule)[]; // Endpoints to protect; the first matching entry applies, '!' excludes
   secret?: string;               // Shared HMAC secret key
+  secrets?: HmacKey[];           // Rotating HMAC secrets, newest first; signers use the newest active key
   
   // PoW settings
   difficulty?: number;           // Number of leading zero bits (default: 4)
   timestampTolerance?: number;   // Seconds (default: 30)
+  maxClockSkew?: number;         // Seconds a timestamp may be ahead of the verifier's clock (default: 10)
+  stampBinding?: 'path' | 'request'; // Bind stamps to the path only, or also to method, query and body (default: 'path')
+  algorithm?: 'sha256' | 'scrypt'; // Hash function stamps are computed with (default: 'sha256')
+  
+  // Cost parameters for the memory-hard 'scrypt' algorithm. Each hash uses 128 * N * r bytes.
+  scrypt?: {
+    N?: number;                  // CPU/memory cost, a power of two (default: 1024)
+    r?: number;                  // Block size (default: 8)
+    p?: number;                  // Parallelization (default: 1)
+  };
+  
+  // Adaptive difficulty settings (Cloudflare Worker only)
+  adaptiveDifficulty?: {
+    enabled?: boolean;           // Raise difficulty under load or after failures (default: false)
+    maxDifficulty?: number;      // Upper bound for the required difficulty (default: 20)
+    loadThreshold?: number;      // Recent requests per endpoint rule before difficulty rises (default: 100)
+    failureThreshold?: number;   // Recent failures per IP before difficulty rises (default: 3)
+    halfLife?: number;           // Seconds for recent counts to decay by half (default: 60)
+  };
+  
+  // Challenge settings
+  challenge?: {
+    enabled?: boolean;           // Require server-issued challenges (default: false)
+    path?: string;               // Route that serves challenges (default: '/pow-challenge')
+    ttl?: number;                // Seconds a challenge stays valid (default: 60)
+  };
+  
+  // Access token settings
+  token?: {
+    enabled?: boolean;           // Answer solved stamps with a token the client sends instead of PoW (default: false)
+    ttl?: number;                // Seconds a token stays valid (default: 300)
+    maxRequests?: number;        // Requests a token may be used for (default: 100)
+  };
+  
+  // Interstitial page settings (Cloudflare Worker only)
+  interstitial?: {
+    enabled?: boolean;           // Answer browser navigations without PoW with a page that solves it (default: false)
+    path?: string;               // Route the page sends its solved stamp to (default: '/pow-interstitial')
+    cookieName?: string;         // Name of the clearance cookie (default: 'pow_clearance')
+    ttl?: number;                // Seconds the clearance cookie stays valid (default: 3600)
+    maxRequests?: number;        // Requests the clearance cookie may be used for (default: 1000)
+  };
   
   // Cache settings
   cacheType?: 'memory' | 'durableObject' | 'kv'; // Cache type for nonce storage (default: 'memory')
@@ -17,21 +88,35 @@ export interface PowShieldConfig {
   // Advanced options
   contextGenerator?: 'userAgent' | 'ip+userAgent' | 'custom'; // How to generate context (default: 'userAgent')
   hmacAlgorithm?: 'sha256' | 'sha512'; // HMAC algorithm (default: 'sha256')
+  hmacVersion?: 'v1' | 'v2';     // Canonical string the Worker signs for the origin (default: 'v2')
+  signatureAlgorithm?: SignatureAlgorithm; // How the Worker signs for the origin: shared secret or key pair (default: 'hmac')
+  privateKey?: SignatureKey;     // PEM (PKCS #8) or JWK key the Worker signs with (ed25519 and ecdsa-p256 only)
+  publicKey?: SignatureKey;      // PEM (SPKI) or JWK key the origin verifies with (ed25519 and ecdsa-p256 only)
   
   // Environment-specific options
   client?: {
     maxRetries?: number;         // Maximum number of PoW retries (default: 5)
+    retryNonIdempotent?: boolean; // Also retry POST and PATCH requests after recoverable rejections (default: false)
+    maxRetryAfter?: number;      // Longest Retry-After, in seconds, to wait for before retrying a 429 (default: 60)
     requestIntegration?: 'fetch' | 'axios' | 'xhr'; // HTTP client (default: 'fetch')
+    workers?: number;            // Threads solving PoW off the main thread; 0 solves inline (default: one per CPU core)
+    workerMinDifficulty?: number; // Solve SHA-256 inline below this difficulty, where starting threads costs more than it saves (default: 12)
+    solveTimeout?: number;       // Milliseconds to spend solving one stamp before giving up (default: no limit)
+    throwOnError?: boolean;      // Throw a PowError for PoW Shield error responses instead of returning them (default: false)
   };
   
   cloudflare?: {
     rateLimiting?: boolean;      // Whether to rate limit requests (default: true)
     requestsPerMinute?: number;  // Requests per minute per IP (default: 30)
+    rateLimitAlgorithm?: 'fixedWindow' | 'slidingWindow' | 'tokenBucket'; // How requests are counted (default: 'fixedWindow')
+    maxBodySize?: number;        // Largest body, in bytes, read to hash for request binding and v2 signatures (default: 1048576)
   };
   
   server?: {
     framework?: 'express' | 'fastify' | 'koa'; // Server framework (default: 'express')
     strictMode?: boolean;        // Reject requests without valid HMAC (default: true)
+    standalone?: boolean;        // Verify PoW directly when not behind the Worker (default: false)
+    acceptLegacyHmac?: boolean;  // Accept v1 signatures while migrating to v2 (default: false)
   };
 }
 
@@ -41,21 +126,63 @@ export interface PowShieldConfig {
 export const DEFAULT_CONFIG: PowShieldConfig = {
   difficulty: 4,
   timestampTolerance: 30,
+  maxClockSkew: 10,
+  stampBinding: 'path',
+  adaptiveDifficulty: {
+    enabled: false,
+    maxDifficulty: 20,
+    loadThreshold: 100,
+    failureThreshold: 3,
+    halfLife: 60
+  },
+  challenge: {
+    enabled: false,
+    path: '/pow-challenge',
+    ttl: 60
+  },
+  token: {
+    enabled: false,
+    ttl: 300,
+    maxRequests: 100
+  },
+  interstitial: {
+    enabled: false,
+    path: '/pow-interstitial',
+    cookieName: 'pow_clearance',
+    ttl: 3600,
+    maxRequests: 1000
+  },
   cacheType: 'memory',
   cacheSize: 10000,
   contextGenerator: 'userAgent',
   hmacAlgorithm: 'sha256',
+  hmacVersion: 'v2',
+  signatureAlgorithm: 'hmac',
+  algorithm: 'sha256',
+  scrypt: {
+    N: 1024,
+    r: 8,
+    p: 1
+  },
   client: {
     maxRetries: 5,
-    requestIntegration: 'fetch'
+    retryNonIdempotent: false,
+    maxRetryAfter: 60,
+    requestIntegration: 'fetch',
+    workerMinDifficulty: 12,
+    throwOnError: false
   },
   cloudflare: {
     rateLimiting: true,
-    requestsPerMinute: 30
+    requestsPerMinute: 30,
+    rateLimitAlgorithm: 'fixedWindow',
+    maxBodySize: 1048576
   },
   server: {
     framework: 'express',
-    strictMode: true
+    strictMode: true,
+    standalone: false,
+    acceptLegacyHmac: false
   }
 };
 
@@ -77,7 +204,9 @@ export function validateAndMergeConfig(
     // Merge top-level properties
     Object.keys(config).forEach(key => {
       const typedKey = key as keyof PowShieldConfig;
-      if (typedKey !== 'client' && typedKey !== 'cloudflare' && typedKey !== 'server') {
+      if (typedKey !== 'client' && typedKey !== 'cloudflare' && typedKey !== 'server' &&
+          typedKey !== 'challenge' && typedKey !== 'token' && typedKey !== 'interstitial' &&
+          typedKey !== 'adaptiveDifficulty' && typedKey !== 'scrypt') {
         (mergedConfig as any)[typedKey] = (config as any)[typedKey];
       }
     });
@@ -92,6 +221,21 @@ export function validateAndMergeConfig(
     if (config.server) {
       mergedConfig.server = { ...DEFAULT_CONFIG.server, ...config.server };
     }
+    if (config.challenge) {
+      mergedConfig.challenge = { ...DEFAULT_CONFIG.challenge, ...config.challenge };
+    }
+    if (config.token) {
+      mergedConfig.token = { ...DEFAULT_CONFIG.token, ...config.token };
+    }
+    if (config.interstitial) {
+      mergedConfig.interstitial = { ...DEFAULT_CONFIG.interstitial, ...config.interstitial };
+    }
+    if (config.adaptiveDifficulty) {
+      mergedConfig.adaptiveDifficulty = { ...DEFAULT_CONFIG.adaptiveDifficulty, ...config.adaptiveDifficulty };
+    }
+    if (config.scrypt) {
+      mergedConfig.scrypt = { ...DEFAULT_CONFIG.scrypt, ...config.scrypt };
+    }
   }
 
   // Validate required configurations
@@ -99,10 +243,79 @@ export function validateAndMergeConfig(
     throw new Error('PoW Shield requires at least one endpoint to protect');
   }
   
-  // Only require secret for server and cloudflare contexts, not for client
-  if ((context === 'server' || context === 'cloudflare') && !mergedConfig.secret) {
+  mergedConfig.endpoints.forEach(entry => {
+    const rule = toEndpointRule(entry);
+    if (!rule || (typeof rule.pattern !== 'string' && !(rule.pattern instanceof RegExp))) {
+      throw new Error('PoW Shield endpoint rules require a pattern');
+    }
+    try {
+      compilePattern(rule.pattern, rule.regex);
+    } catch {
+      throw new Error(`PoW Shield endpoint pattern is invalid: ${rule.pattern}`);
+    }
+  });
+  
+  if (mergedConfig.algorithm !== 'sha256' && mergedConfig.algorithm !== 'scrypt') {
+    throw new Error(`PoW Shield algorithm is not supported: ${mergedConfig.algorithm}`);
+  }
+
+  // The page is only given SHA-256 searches
+  if (mergedConfig.interstitial?.enabled && mergedConfig.algorithm !== 'sha256') {
+    throw new Error('PoW Shield interstitial page requires the sha256 algorithm');
+  }
+
+  if (mergedConfig.algorithm === 'scrypt') {
+    const scryptError = validateScryptParams(getScryptParams(mergedConfig));
+    if (scryptError) {
+      throw new Error(`PoW Shield scrypt parameters are invalid: ${scryptError}`);
+    }
+  }
+  
+  const signatureAlgorithm = mergedConfig.signatureAlgorithm;
+  if (signatureAlgorithm !== 'hmac' && signatureAlgorithm !== 'ed25519' && signatureAlgorithm !== 'ecdsa-p256') {
+    throw new Error(`PoW Shield signature algorithm is not supported: ${signatureAlgorithm}`);
+  }
+
+  // With a key pair, the Worker holds the private key and the origin only the public key
+  const asymmetric = signatureAlgorithm !== 'hmac';
+  if (asymmetric && context === 'cloudflare' && !mergedConfig.privateKey) {
+    throw new Error(`PoW Shield requires a private key for ${signatureAlgorithm} signatures`);
+  }
+  if (asymmetric && context === 'server' && !mergedConfig.server?.standalone && !mergedConfig.publicKey) {
+    throw new Error(`PoW Shield requires a public key for ${signatureAlgorithm} signatures`);
+  }
+
+  // Only require secret for server and cloudflare contexts, not for client.
+  // Key pairs replace it for origin signatures, but challenges, access tokens and clearance cookies are still signed with it.
+  const needsSecret = !asymmetric || mergedConfig.challenge?.enabled || mergedConfig.token?.enabled ||
+    mergedConfig.interstitial?.enabled;
+  if ((context === 'server' || context === 'cloudflare') && needsSecret && !mergedConfig.secret && !mergedConfig.secrets?.length) {
     throw new Error('PoW Shield requires a shared secret for HMAC generation');
   }
 
+  const keyIds = new Set<string>();
+  (mergedConfig.secrets || []).forEach(key => {
+    if (!key.id || !key.secret) {
+      throw new Error('PoW Shield secrets require an id and a secret');
+    }
+    if (keyIds.has(key.id)) {
+      throw new Error(`PoW Shield secret id is not unique: ${key.id}`);
+    }
+    keyIds.add(key.id);
+  });
+
   return mergedConfig;
+}
+
+/**
+ * Gets the scrypt cost parameters with defaults filled in
+ * @param config Configuration
+ * @returns scrypt cost parameters
+ */
+export function getScryptParams(config: PowShieldConfig): ScryptParams {
+  return {
+    N: config.scrypt?.N ?? 1024,
+    r: config.scrypt?.r ?? 8,
+    p: config.scrypt?.p ?? 1
+  };
 }
\ No newline at end of file
@@ -0,0 +1,257 @@
+import type { RateLimitPolicy, RateLimitResult, RateLimitState } from './utils/rate-limit.js';
+import { applyRateLimit } from './utils/rate-limit.js';
+import { CryptoUtils } from './utils/crypto.js';
+
+/**
+ * Subset of the Durable Object storage API used by PowShieldCoordinator
+ */
+export interface DurableObjectStorageLike {
+  get<T>(key: string): Promise<T | undefined>;
+  put<T>(key: string, value: T): Promise<void>;
+  delete(keys: string[]): Promise<number>;
+  list<T>(options?: { prefix?: string }): Promise<Map<string, T>>;
+  getAlarm(): Promise<number | null>;
+  setAlarm(scheduledTime: number): Promise<void>;
+}
+
+/**
+ * Subset of the Durable Object state passed to PowShieldCoordinator
+ */
+export interface DurableObjectStateLike {
+  storage: DurableObjectStorageLike;
+}
+
+/**
+ * Subset of the Durable Object stub API used by CoordinatorClient
+ */
+export interface DurableObjectStubLike {
+  fetch(input: string | Request, init?: RequestInit): Promise<Response>;
+}
+
+/**
+ * Subset of the Durable Object namespace API used by CoordinatorClient
+ */
+export interface DurableObjectNamespaceLike {
+  idFromName(name: string): unknown;
+  get(id: unknown): DurableObjectStubLike;
+}
+
+/**
+ * Rate limit counter kept in Durable Object storage
+ */
+interface StoredRateCounter {
+  state: RateLimitState;
+  expiresAt: number;    // When the counter can be deleted (ms since epoch)
+}
+
+const NONCE_PREFIX = 'nonce:';
+const RATE_PREFIX = 'rate:';
+
+// Hex digits of the nonce key hash naming its shard: 256 instances share the replay checks
+const NONCE_SHARD_DIGITS = 2;
+
+/**
+ * Durable Object that records nonces and counts requests for PowCloudflare.
+ * Each request to the object runs against its storage without interleaving,
+ * so a nonce is accepted at most once across isolates and colos.
+ * CoordinatorClient spreads the work over many instances, since each one is single-threaded.
+ *
+ * Export it from the Worker's main module and bind it as POW_COORDINATOR.
+ */
+export class PowShieldCoordinator {
+  private storage: DurableObjectStorageLike;
+  private alarmPending?: boolean;  // Unknown until storage is first asked
+
+  constructor(state: DurableObjectStateLike, env?: unknown) {
+    this.storage = state.storage;
+  }
+
+  /**
+   * Handles an RPC call from CoordinatorClient
+   * @param request POST /nonce with { key, ttl } or POST /rate with { key, policy }
+   * @returns JSON response
+   */
+  async fetch(request: Request): Promise<Response> {
+    if (request.method !== 'POST') {
+      return new Response('Method not allowed', { status: 405 });
+    }
+
+    let body: any;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response('Invalid JSON body', { status: 400 });
+    }
+
+    const path = new URL(request.url).pathname;
+
+    if (path === '/nonce') {
+      if (typeof body?.key !== 'string' || typeof body?.ttl !== 'number') {
+        return new Response('Expected key and ttl', { status: 400 });
+      }
+      return Response.json({ fresh: await this.checkNonce(body.key, body.ttl) });
+    }
+
+    if (path === '/rate') {
+      const policy = body?.policy;
+      if (typeof body?.key !== 'string' || typeof policy?.limit !== 'number' || typeof policy?.window !== 'number') {
+        return new Response('Expected key and policy', { status: 400 });
+      }
+      return Response.json(await this.countRequest(body.key, policy));
+    }
+
+    return new Response('Not found', { status: 404 });
+  }
+
+  /**
+   * Deletes expired nonces and rate counters, then schedules the next cleanup
+   */
+  async alarm(): Promise<void> {
+    this.alarmPending = false;
+    const now = Date.now();
+    const expired: string[] = [];
+    let nextExpiry: number | null = null;
+
+    const nonces = await this.storage.list<number>({ prefix: NONCE_PREFIX });
+    const counters = await this.storage.list<StoredRateCounter>({ prefix: RATE_PREFIX });
+    const entries: [string, number][] = [
+      ...Array.from(nonces.entries()),
+      ...Array.from(counters.entries()).map(([key, counter]): [string, number] => [key, counter.expiresAt])
+    ];
+
+    for (const [key, expires] of entries) {
+      if (expires <= now) {
+        expired.push(key);
+      } else if (nextExpiry === null || expires < nextExpiry) {
+        nextExpiry = expires;
+      }
+    }
+
+    // Storage deletes at most 128 keys per call
+    for (let i = 0; i < expired.length; i += 128) {
+      await this.storage.delete(expired.slice(i, i + 128));
+    }
+
+    if (nextExpiry !== null) {
+      await this.storage.setAlarm(nextExpiry);
+      this.alarmPending = true;
+    }
+  }
+
+  /**
+   * Records a nonce unless it was recorded before and has not expired
+   * @param key Nonce key
+   * @param ttl Seconds to remember the nonce
+   * @returns True if the nonce is new
+   */
+  private async checkNonce(key: string, ttl: number): Promise<boolean> {
+    const now = Date.now();
+    const storageKey = NONCE_PREFIX + key;
+
+    const expires = await this.storage.get<number>(storageKey);
+    if (expires !== undefined && expires > now) {
+      return false;
+    }
+
+    const newExpires = now + ttl * 1000; // Convert to milliseconds
+    await this.storage.put(storageKey, newExpires);
+    await this.scheduleCleanup(newExpires);
+    return true;
+  }
+
+  /**
+   * Counts a request against a rate limit
+   * @param key Counter key, e.g. the client IP
+   * @param policy Limit to apply
+   * @returns Outcome, including whether the request is allowed
+   */
+  private async countRequest(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+    const storageKey = RATE_PREFIX + key;
+
+    const counter = await this.storage.get<StoredRateCounter>(storageKey);
+    const { state, result, expiresAt } = applyRateLimit(counter?.state, policy, Date.now());
+
+    await this.storage.put<StoredRateCounter>(storageKey, { state, expiresAt });
+    await this.scheduleCleanup(expiresAt);
+    return result;
+  }
+
+  /**
+   * Sets a cleanup alarm for the given time, unless one is already pending. A pending alarm
+   * may run later than this entry expires; expired entries are ignored until it deletes them.
+   * @param time Expiry time (ms since epoch)
+   */
+  private async scheduleCleanup(time: number): Promise<void> {
+    // Storage is only asked once per instance; afterwards the flag tracks the alarm
+    if (this.alarmPending === undefined) {
+      this.alarmPending = await this.storage.getAlarm() !== null;
+    }
+    if (!this.alarmPending) {
+      await this.storage.setAlarm(time);
+      this.alarmPending = true;
+    }
+  }
+}
+
+/**
+ * Calls a PowShieldCoordinator through its Durable Object namespace binding.
+ * Calls are sharded over instances named after the key: rate counters by their key,
+ * e.g. the client IP, and nonces by a prefix of the hash of their key.
+ */
+export class CoordinatorClient {
+  private namespace: DurableObjectNamespaceLike;
+  private name: string;
+
+  /**
+   * @param namespace Durable Object namespace bound to PowShieldCoordinator
+   * @param name Prefix of the object instance names, shared by all isolates
+   */
+  constructor(namespace: DurableObjectNamespaceLike, name: string = 'pow-shield') {
+    this.namespace = namespace;
+    this.name = name;
+  }
+
+  /**
+   * Records a nonce unless it was recorded before
+   * @param key Nonce key
+   * @param ttl Seconds to remember the nonce
+   * @returns True if the nonce is new
+   */
+  async checkNonce(key: string, ttl: number): Promise<boolean> {
+    const shard = `nonce:${CryptoUtils.sha256(key).slice(0, NONCE_SHARD_DIGITS)}`;
+    const { fresh } = await this.call<{ fresh: boolean }>(shard, '/nonce', { key, ttl });
+    return fresh;
+  }
+
+  /**
+   * Counts a request against a rate limit
+   * @param key Counter key, e.g. the client IP
+   * @param policy Limit to apply
+   * @returns Outcome, including whether the request is allowed
+   */
+  async countRequest(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+    return this.call<RateLimitResult>(`rate:${key}`, '/rate', { key, policy });
+  }
+
+  /**
+   * Sends an RPC call to one coordinator instance
+   * @param shard Instance name, after the name prefix
+   * @param path RPC path
+   * @param body JSON request body
+   * @returns Parsed JSON response
+   */
+  private async call<T>(shard: string, path: string, body: unknown): Promise<T> {
+    const stub = this.namespace.get(this.namespace.idFromName(`${this.name}:${shard}`));
+    const response = await stub.fetch(`https://pow-shield${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Durable Object request to ${path} failed: ${response.status}`);
+    }
+
+    return await response.json() as T;
+  }
+}
@@ -0,0 +1,202 @@
+import { parseDifficulty } from './utils/difficulty.js';
+
+/**
+ * Thrown when PoW solving stops before finding a stamp, because the caller's
+ * signal aborted or the time budget ran out. Its name is 'AbortError', like
+ * the error fetch throws when its signal aborts, so both can be handled alike.
+ */
+export class PowAbortError extends Error {
+  readonly reason: 'aborted' | 'timeout';  // What stopped solving
+  readonly attempts: number;               // Hashes computed before stopping
+  readonly expectedAttempts: number;       // Average number of hashes needed at the difficulty
+
+  constructor(reason: 'aborted' | 'timeout', attempts: number, expectedAttempts: number, message?: string) {
+    super(message ?? `PoW solving ${reason === 'timeout' ? 'timed out' : 'aborted'}: ${attempts} attempts made, about ${expectedAttempts} expected`);
+    this.name = 'AbortError';
+    this.reason = reason;
+    this.attempts = attempts;
+    this.expectedAttempts = expectedAttempts;
+  }
+}
+
+/**
+ * Stable codes in PoW Shield error responses. Messages may change between
+ * versions; codes do not.
+ */
+export enum PowErrorCode {
+  MissingHeaders = 'POW_MISSING_HEADERS',              // Required PoW or forwarded headers are missing
+  UnsupportedAlgorithm = 'POW_UNSUPPORTED_ALGORITHM',  // Stamp was solved with another algorithm
+  Expired = 'POW_EXPIRED',                             // Timestamp is outside the tolerance
+  ChallengeInvalid = 'POW_CHALLENGE_INVALID',          // Challenge expired or was not issued with our secret
+  TokenInvalid = 'POW_TOKEN_INVALID',                  // Access token expired, used up or not issued to this client
+  InvalidStamp = 'POW_INVALID',                        // Stamp does not match the request
+  Difficulty = 'POW_DIFFICULTY',                       // Stamp is valid but too easy
+  Replay = 'POW_REPLAY',                               // Nonce was already used
+  HmacMissing = 'HMAC_MISSING',                        // Origin request has no Worker signature
+  HmacInvalid = 'HMAC_INVALID',                        // Worker signature does not match
+  HmacUnsupported = 'HMAC_UNSUPPORTED',                // Signature version is unknown or not accepted
+  ContentDigestMismatch = 'CONTENT_DIGEST_MISMATCH',   // Body does not match the signed digest
+  RateLimited = 'RATE_LIMITED',                        // Too many requests
+  BodyTooLarge = 'BODY_TOO_LARGE'                      // Body is larger than the Worker reads
+}
+
+/**
+ * JSON body of PoW Shield error responses
+ */
+export interface PowErrorBody {
+  code: PowErrorCode;
+  message: string;
+}
+
+/**
+ * Error response from a PoW Shield Worker or server
+ */
+export class PowError extends Error {
+  readonly code: PowErrorCode;  // Stable error code
+  readonly status: number;      // HTTP status code of the response
+
+  constructor(code: PowErrorCode, message: string, status: number) {
+    super(message);
+    this.name = 'PowError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+/**
+ * Request lacks headers PoW Shield needs
+ */
+export class PowMissingHeadersError extends PowError {
+  constructor(code: PowErrorCode, message: string, status: number) {
+    super(code, message, status);
+    this.name = 'PowMissingHeadersError';
+  }
+}
+
+/**
+ * Timestamp or challenge expired. Solving a new stamp usually fixes it.
+ */
+export class PowExpiredError extends PowError {
+  constructor(code: PowErrorCode, message: string, status: number) {
+    super(code, message, status);
+    this.name = 'PowExpiredError';
+  }
+}
+
+/**
+ * Stamp does not match the request or was solved with another algorithm
+ */
+export class PowInvalidError extends PowError {
+  constructor(code: PowErrorCode, message: string, status: number) {
+    super(code, message, status);
+    this.name = 'PowInvalidError';
+  }
+}
+
+/**
+ * Stamp is too easy for the difficulty currently required
+ */
+export class PowDifficultyError extends PowError {
+  readonly difficulty?: number;  // Difficulty advertised in X-Pow-Difficulty, if any
+
+  constructor(code: PowErrorCode, message: string, status: number, difficulty?: number) {
+    super(code, message, status);
+    this.name = 'PowDifficultyError';
+    this.difficulty = difficulty;
+  }
+}
+
+/**
+ * Nonce was already used
+ */
+export class PowReplayError extends PowError {
+  constructor(code: PowErrorCode, message: string, status: number) {
+    super(code, message, status);
+    this.name = 'PowReplayError';
+  }
+}
+
+/**
+ * Origin rejected the Worker's signature
+ */
+export class PowHmacError extends PowError {
+  constructor(code: PowErrorCode, message: string, status: number) {
+    super(code, message, status);
+    this.name = 'PowHmacError';
+  }
+}
+
+/**
+ * Client exceeded its rate limit
+ */
+export class PowRateLimitError extends PowError {
+  readonly retryAfter?: number;  // Seconds to wait, from Retry-After, if any
+
+  constructor(code: PowErrorCode, message: string, status: number, retryAfter?: number) {
+    super(code, message, status);
+    this.name = 'PowRateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Creates the error class matching an error code
+ * @param body Error code and message
+ * @param status HTTP status code
+ * @param headers Response headers, for X-Pow-Difficulty and Retry-After
+ * @returns Error
+ */
+export function createPowError(body: PowErrorBody, status: number, headers?: Headers): PowError {
+  const { code, message } = body;
+
+  switch (code) {
+    case PowErrorCode.MissingHeaders:
+      return new PowMissingHeadersError(code, message, status);
+    case PowErrorCode.Expired:
+    case PowErrorCode.ChallengeInvalid:
+    case PowErrorCode.TokenInvalid:
+      return new PowExpiredError(code, message, status);
+    case PowErrorCode.InvalidStamp:
+    case PowErrorCode.UnsupportedAlgorithm:
+      return new PowInvalidError(code, message, status);
+    case PowErrorCode.Difficulty: {
+      const difficulty = parseDifficulty(headers?.get('X-Pow-Difficulty'));
+      return new PowDifficultyError(code, message, status, difficulty ?? undefined);
+    }
+    case PowErrorCode.Replay:
+      return new PowReplayError(code, message, status);
+    case PowErrorCode.HmacMissing:
+    case PowErrorCode.HmacInvalid:
+    case PowErrorCode.HmacUnsupported:
+    case PowErrorCode.ContentDigestMismatch:
+      return new PowHmacError(code, message, status);
+    case PowErrorCode.RateLimited: {
+      const retryAfter = parseInt(headers?.get('Retry-After') || '', 10);
+      return new PowRateLimitError(code, message, status, isNaN(retryAfter) ? undefined : retryAfter);
+    }
+    default:
+      return new PowError(code, message, status);
+  }
+}
+
+/**
+ * Reads a PoW Shield error from a response. The body is read from a clone,
+ * so the response can still be consumed.
+ * @param response Response from a Worker or server
+ * @returns Error, or null if the response is not a PoW Shield error
+ */
+export async function parsePowError(response: Response): Promise<PowError | null> {
+  if (response.ok || !response.headers.get('Content-Type')?.includes('application/json')) {
+    return null;
+  }
+
+  try {
+    const body = await response.clone().json();
+    if (!body || !Object.values(PowErrorCode).includes(body.code) || typeof body.message !== 'string') {
+      return null;
+    }
+    return createPowError(body, response.status, response.headers);
+  } catch {
+    return null;
+  }
+}
@@ -2,14 +2,59 @@ import { validateAndMergeConfig } from './config.js';
 import { PowClient } from './client.js';
 import { PowCloudflare } from './cloudflare.js';
 import { PowServer } from './server.js';
+import { MemoryNonceStore, KVNonceStore, DurableObjectNonceStore } from './nonce-store.js';
+import { PowShieldCoordinator } from './coordinator.js';
+import { MemoryRateLimiter, KVRateLimiter, DurableObjectRateLimiter } from './rate-limiter.js';
+import { rateLimitHeaders } from './utils/rate-limit.js';
+import {
+  PowAbortError,
+  PowErrorCode,
+  PowError,
+  PowMissingHeadersError,
+  PowExpiredError,
+  PowInvalidError,
+  PowDifficultyError,
+  PowReplayError,
+  PowHmacError,
+  PowRateLimitError,
+  parsePowError
+} from './errors.js';
 
 // Export all components directly
 export { 
   PowClient, 
   PowCloudflare, 
   PowServer,
+  MemoryNonceStore,
+  KVNonceStore,
+  DurableObjectNonceStore,
+  PowShieldCoordinator,
+  MemoryRateLimiter,
+  KVRateLimiter,
+  DurableObjectRateLimiter,
+  rateLimitHeaders,
+  PowAbortError,
+  PowErrorCode,
+  PowError,
+  PowMissingHeadersError,
+  PowExpiredError,
+  PowInvalidError,
+  PowDifficultyError,
+  PowReplayError,
+  PowHmacError,
+  PowRateLimitError,
+  parsePowError,
   validateAndMergeConfig 
 };
 
 // Export types
-export type { PowShieldConfig } from './config.js';
\ No newline at end of file
+export type { PowShieldConfig, EndpointRule, HmacKey } from './config.js';
+export type { PowCloudflareResult, OriginFetch } from './cloudflare.js';
+export type { PowHeaderOptions, PowFetchOptions, PowProgress, PowSolveResult } from './client.js';
+export type { PowChallenge } from './challenge.js';
+export type { PowErrorBody } from './errors.js';
+export type { SignatureAlgorithm, SignatureKey } from './origin-signature.js';
+export type { RequestBinding } from './utils/stamp.js';
+export type { NonceStore, PowShieldBindings } from './nonce-store.js';
+export type { RateLimiter } from './rate-limiter.js';
+export type { RateLimitAlgorithm, RateLimitPolicy, RateLimitResult } from './utils/rate-limit.js';
\ No newline at end of file
@@ -1,3 +1,6 @@
+import type { PowChallenge } from './challenge.js';
+import type { OriginFetch, PowCloudflareResult } from './cloudflare.js';
+
 /**
  * Base interface for client-side PoW Shield
  */
@@ -13,9 +16,17 @@ export interface PowClient {
     /**
      * Gets PoW headers for a request
      * @param endpoint API endpoint
+     * @param options Header options
      * @returns Headers object with PoW headers
      */
-    getHeaders(endpoint: string): Promise<Record<string, string>>;
+    getHeaders(endpoint: string, options?: { challenge?: PowChallenge }): Promise<Record<string, string>>;
+
+    /**
+     * Fetches a server-issued challenge
+     * @param baseUrl URL of the site serving the challenge route
+     * @returns Signed challenge
+     */
+    getChallenge(baseUrl: string): Promise<PowChallenge>;
   }
   
   /**
@@ -25,9 +36,17 @@ export interface PowClient {
     /**
      * Handles an incoming request
      * @param request Incoming request
-     * @returns Response or null if request should be passed to origin
+     * @returns Response to return to the client, or the request to forward to the origin
+     */
+    handleRequest(request: Request): Promise<PowCloudflareResult>;
+
+    /**
+     * Validates a request and forwards it to the origin if it passes
+     * @param request Incoming request
+     * @param originFetch Function used to reach the origin
+     * @returns Rejection response or the origin's response
      */
-    handleRequest(request: Request): Promise<Response | null>;
+    protect(request: Request, originFetch?: OriginFetch): Promise<Response>;
   }
   
   /**
@@ -0,0 +1,111 @@
+import type { SolverTask } from './solver.js';
+
+/**
+ * What the interstitial page needs to solve a stamp and send it back
+ */
+export interface InterstitialTask {
+  source: string;                  // Web Worker source of the nonce search
+  search: SolverTask;              // Task to post to the Web Worker
+  headers: Record<string, string>; // PoW headers other than X-Nonce and X-Stamp
+  verifyUrl: string;               // Where to send the solved stamp
+  returnUrl: string;               // Where to go once cleared
+}
+
+/**
+ * Checks if a request is a browser navigating to a page, rather than a script fetching data
+ * @param request Incoming request
+ * @returns True for GET and HEAD requests that accept HTML
+ */
+export function isNavigation(request: Request): boolean {
+  return (request.method === 'GET' || request.method === 'HEAD') &&
+    (request.headers.get('Accept') || '').includes('text/html');
+}
+
+/**
+ * Reads a cookie from a request
+ * @param request Incoming request
+ * @param name Cookie name
+ * @returns Cookie value, or null if it is not set
+ */
+export function getCookie(request: Request, name: string): string | null {
+  for (const part of (request.headers.get('Cookie') || '').split(';')) {
+    const index = part.indexOf('=');
+    if (index !== -1 && part.slice(0, index).trim() === name) {
+      return part.slice(index + 1).trim();
+    }
+  }
+  return null;
+}
+
+/**
+ * Builds the Set-Cookie header value of a clearance cookie
+ * @param name Cookie name
+ * @param value Encoded clearance token
+ * @param maxAge Seconds the cookie is kept
+ * @param secure Send the cookie over HTTPS only
+ * @returns Set-Cookie header value
+ */
+export function buildClearanceCookie(name: string, value: string, maxAge: number, secure: boolean): string {
+  // HttpOnly keeps page scripts away from it; Lax still sends it on navigations from other sites
+  return `${name}=${value}; Path=/; Max-Age=${maxAge}; HttpOnly; SameSite=Lax${secure ? '; Secure' : ''}`;
+}
+
+/**
+ * Renders the self-contained page that solves a stamp in the browser, exchanges
+ * it for a clearance cookie and returns to the page first requested
+ * @param task Nonce search, headers and URLs
+ * @returns HTML document
+ */
+export function renderInterstitialPage(task: InterstitialTask): string {
+  // Script-safe JSON: '<' is escaped so no value can close the script element
+  const data = JSON.stringify(task).replace(/</g, '\\u003c');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>Checking your browser</title>
+<style>
+body { font-family: system-ui, sans-serif; display: flex; align-items: center; justify-content: center; min-height: 100vh; margin: 0; color: #333; }
+main { max-width: 32rem; padding: 1rem; text-align: center; }
+</style>
+</head>
+<body>
+<main>
+<h1>Checking your browser</h1>
+<p id="status">This should only take a few seconds.</p>
+<noscript><p>Please enable JavaScript to continue.</p></noscript>
+</main>
+<script>
+(() => {
+  const task = ${data};
+  const status = document.getElementById('status');
+  const fail = () => { status.textContent = 'Verification failed. Reload the page to try again.'; };
+
+  const url = URL.createObjectURL(new Blob([task.source], { type: 'text/javascript' }));
+  const worker = new Worker(url);
+  URL.revokeObjectURL(url);
+
+  worker.onerror = fail;
+  worker.onmessage = async event => {
+    if (event.data.type !== 'solution') return;
+    worker.terminate();
+
+    const headers = Object.assign({}, task.headers, { 'X-Nonce': event.data.nonce, 'X-Stamp': event.data.stamp });
+    try {
+      const response = await fetch(task.verifyUrl, { method: 'POST', headers, credentials: 'same-origin' });
+      if (!response.ok) return fail();
+      location.replace(task.returnUrl);
+    } catch {
+      fail();
+    }
+  };
+  worker.postMessage(task.search);
+})();
+</script>
+</body>
+</html>
+`;
+}
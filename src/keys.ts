@@ -0,0 +1,66 @@
+import type { HmacKey, PowShieldConfig } from './config.js';
+
+/**
+ * Secret used to sign a request, with the ID the origin looks it up by
+ */
+export interface SigningKey {
+  id?: string;       // Key ID, unset for the single `secret`
+  secret: string;    // Shared HMAC secret
+}
+
+/**
+ * Lists the keys from `secrets` that have not passed their notAfter time
+ * @param config Configuration
+ * @param now Current time in milliseconds
+ * @returns Active keys, newest first
+ */
+export function getActiveKeys(config: PowShieldConfig, now: number = Date.now()): HmacKey[] {
+  const seconds = Math.floor(now / 1000);
+  return (config.secrets || []).filter(key => key.notAfter === undefined || seconds <= key.notAfter);
+}
+
+/**
+ * Picks the secret to sign with: the newest active key, or `secret` if none is left
+ * @param config Configuration
+ * @param now Current time in milliseconds
+ * @returns Signing key
+ * @throws If every key has passed its notAfter time and no `secret` is set
+ */
+export function getSigningKey(config: PowShieldConfig, now: number = Date.now()): SigningKey {
+  const [newest] = getActiveKeys(config, now);
+  if (newest) {
+    return { id: newest.id, secret: newest.secret };
+  }
+
+  // Signing with an empty key would only surface as every origin check failing
+  if (!config.secret) {
+    throw new Error('PoW Shield has no active signing key: every key in secrets has passed its notAfter time and no secret is set');
+  }
+  return { secret: config.secret };
+}
+
+/**
+ * Lists the secrets a signature may have been made with
+ * @param config Configuration
+ * @param keyId Key ID sent with the signature, if any
+ * @param now Current time in milliseconds
+ * @returns Candidate secrets; empty if the key ID is unknown or expired
+ */
+export function getVerificationSecrets(
+  config: PowShieldConfig,
+  keyId?: string,
+  now: number = Date.now()
+): string[] {
+  const active = getActiveKeys(config, now);
+
+  if (keyId) {
+    return active.filter(key => key.id === keyId).map(key => key.secret);
+  }
+
+  // Signatures without a key ID come from signers that predate rotation, or use `secret`
+  const secrets = active.map(key => key.secret);
+  if (config.secret) {
+    secrets.push(config.secret);
+  }
+  return secrets;
+}
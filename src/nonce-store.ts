@@ -0,0 +1,123 @@
+import type { PowShieldConfig } from './config.js';
+import type { DurableObjectNamespaceLike } from './coordinator.js';
+import { CoordinatorClient } from './coordinator.js';
+import { LRUCache } from 'lru-cache';
+
+/**
+ * Storage for seen nonces, used for replay protection
+ */
+export interface NonceStore {
+  /**
+   * Records a key unless it was recorded before
+   * @param key Nonce key
+   * @param ttl Seconds to remember the key
+   * @returns True if the key is new, false if it was already recorded
+   */
+  checkAndSet(key: string, ttl: number): Promise<boolean>;
+}
+
+/**
+ * Subset of the Workers KV namespace API used by KVNonceStore
+ */
+export interface KVNamespaceLike {
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+}
+
+/**
+ * Cloudflare env bindings PoW Shield can use for shared state
+ */
+export interface PowShieldBindings {
+  kv?: KVNamespaceLike;                          // Used when cacheType is 'kv'
+  durableObject?: DurableObjectNamespaceLike;    // PowShieldCoordinator namespace, used when cacheType is 'durableObject'
+}
+
+/**
+ * Nonce store kept in memory. Each Worker isolate or server process has its own.
+ */
+export class MemoryNonceStore implements NonceStore {
+  private cache: LRUCache<string, boolean>;
+
+  constructor(maxSize: number = 10000) {
+    this.cache = new LRUCache({ max: maxSize });
+  }
+
+  async checkAndSet(key: string, ttl: number): Promise<boolean> {
+    if (this.cache.has(key)) {
+      return false;
+    }
+
+    this.cache.set(key, true, { ttl: ttl * 1000 }); // Convert to milliseconds
+    return true;
+  }
+}
+
+/**
+ * Nonce store backed by Workers KV. Shared across isolates and colos, but KV is
+ * eventually consistent: the same nonce sent to two colos at once may be accepted twice.
+ */
+export class KVNonceStore implements NonceStore {
+  // KV rejects expiration TTLs below 60 seconds
+  private static readonly MIN_TTL = 60;
+
+  private namespace: KVNamespaceLike;
+  private prefix: string;
+
+  constructor(namespace: KVNamespaceLike, prefix: string = 'nonce:') {
+    this.namespace = namespace;
+    this.prefix = prefix;
+  }
+
+  async checkAndSet(key: string, ttl: number): Promise<boolean> {
+    const storageKey = this.prefix + key;
+
+    if (await this.namespace.get(storageKey) !== null) {
+      return false;
+    }
+
+    await this.namespace.put(storageKey, '1', {
+      expirationTtl: Math.max(Math.ceil(ttl), KVNonceStore.MIN_TTL)
+    });
+    return true;
+  }
+}
+
+/**
+ * Nonce store backed by the PowShieldCoordinator Durable Object. Each key is always checked
+ * by the same object, which serializes its checks, so a nonce is accepted at most once
+ * across isolates and colos.
+ */
+export class DurableObjectNonceStore implements NonceStore {
+  private coordinator: CoordinatorClient;
+
+  constructor(namespace: DurableObjectNamespaceLike, name?: string) {
+    this.coordinator = new CoordinatorClient(namespace, name);
+  }
+
+  async checkAndSet(key: string, ttl: number): Promise<boolean> {
+    return this.coordinator.checkNonce(key, ttl);
+  }
+}
+
+/**
+ * Creates the nonce store selected by the cacheType setting
+ * @param config Configuration
+ * @param bindings Cloudflare env bindings
+ * @returns Nonce store
+ */
+export function createNonceStore(config: PowShieldConfig, bindings: PowShieldBindings = {}): NonceStore {
+  switch (config.cacheType) {
+    case 'kv':
+      if (!bindings.kv) {
+        throw new Error("PoW Shield cacheType 'kv' requires a KV namespace binding");
+      }
+      return new KVNonceStore(bindings.kv);
+    case 'durableObject':
+      if (!bindings.durableObject) {
+        throw new Error("PoW Shield cacheType 'durableObject' requires a Durable Object namespace binding");
+      }
+      return new DurableObjectNonceStore(bindings.durableObject);
+    default:
+      return new MemoryNonceStore(config.cacheSize || 10000);
+  }
+}
@@ -0,0 +1,261 @@
+import type { PowShieldConfig } from './config.js';
+import { CryptoUtils } from './utils/crypto.js';
+import { toHex } from './utils/hash.js';
+import { getSigningKey, getVerificationSecrets } from './keys.js';
+
+/**
+ * How the Worker signs requests for the origin
+ * - hmac: shared secret, held by both sides
+ * - ed25519 / ecdsa-p256: private key on the Worker, public key on the origin
+ */
+export type SignatureAlgorithm = 'hmac' | 'ed25519' | 'ecdsa-p256';
+
+/**
+ * Key in PEM (PKCS #8 private or SPKI public) or JWK form, as an object or JSON string
+ */
+export type SignatureKey = string | JsonWebKey;
+
+/**
+ * Signature of a canonical string, with the ID of the key that made it
+ */
+export interface OriginSignature {
+  value: string;     // Hex-encoded signature
+  keyId?: string;    // Rotating HMAC key ID, if any
+}
+
+/**
+ * Outcome of checking an origin signature
+ */
+export type OriginVerification = 'valid' | 'invalid' | 'unknown-key';
+
+/**
+ * Signs canonical strings on the Worker
+ */
+export interface OriginSigner {
+  header: string;  // Header the signature is sent in
+  sign(data: string): Promise<OriginSignature>;
+}
+
+/**
+ * Verifies origin signatures on the origin
+ */
+export interface OriginVerifier {
+  header: string;  // Header the signature is read from
+  verify(data: string, signature: string, keyId?: string): Promise<OriginVerification>;
+}
+
+/**
+ * The part of WebCrypto used here, which Node's webcrypto and the global both provide
+ */
+type SignatureCrypto = Pick<SubtleCrypto, 'importKey' | 'sign' | 'verify'>;
+
+/**
+ * WebCrypto parameters for each asymmetric algorithm
+ */
+const ASYMMETRIC_PARAMS = {
+  'ed25519': {
+    key: { name: 'Ed25519' },
+    sign: { name: 'Ed25519' }
+  },
+  'ecdsa-p256': {
+    key: { name: 'ECDSA', namedCurve: 'P-256' },
+    sign: { name: 'ECDSA', hash: 'SHA-256' }
+  }
+} as const;
+
+/**
+ * Gets the header that carries origin signatures
+ * @param algorithm Signature algorithm
+ * @returns Header name
+ */
+export function getSignatureHeader(algorithm: SignatureAlgorithm = 'hmac'): string {
+  return algorithm === 'hmac' ? 'X-HMAC' : 'X-Signature';
+}
+
+/**
+ * Creates the signer the Worker uses for the configured algorithm
+ * @param config Configuration with the secret or private key
+ * @returns Origin signer
+ */
+export function createOriginSigner(config: PowShieldConfig): OriginSigner {
+  const algorithm = config.signatureAlgorithm || 'hmac';
+  const header = getSignatureHeader(algorithm);
+
+  if (algorithm === 'hmac') {
+    return {
+      header,
+      sign: async data => {
+        const key = getSigningKey(config);
+        return { value: CryptoUtils.hmac(data, key.secret, config.hmacAlgorithm), keyId: key.id };
+      }
+    };
+  }
+
+  // Imported on first use, since WebCrypto key import is asynchronous
+  const getPrivateKey = cacheKey(() => importKey(config.privateKey, algorithm, 'private'));
+  const params = ASYMMETRIC_PARAMS[algorithm];
+
+  return {
+    header,
+    sign: async data => {
+      const key = await getPrivateKey();
+      const signature = await (await getSubtle()).sign(params.sign, key, new TextEncoder().encode(data));
+      return { value: toHex(new Uint8Array(signature)) };
+    }
+  };
+}
+
+/**
+ * Creates the verifier the origin uses for the configured algorithm
+ * @param config Configuration with the secret or public key
+ * @returns Origin verifier
+ */
+export function createOriginVerifier(config: PowShieldConfig): OriginVerifier {
+  const algorithm = config.signatureAlgorithm || 'hmac';
+  const header = getSignatureHeader(algorithm);
+
+  if (algorithm === 'hmac') {
+    return {
+      header,
+      verify: async (data, signature, keyId) => {
+        // Signatures name their key while secrets rotate; without a name, any active key is tried
+        const secrets = getVerificationSecrets(config, keyId);
+        if (secrets.length === 0) {
+          return 'unknown-key';
+        }
+
+        const matches = secrets.map(secret => CryptoUtils.timingSafeEqual(
+          signature,
+          CryptoUtils.hmac(data, secret, config.hmacAlgorithm)
+        ));
+        return matches.includes(true) ? 'valid' : 'invalid';
+      }
+    };
+  }
+
+  const getPublicKey = cacheKey(() => importKey(config.publicKey, algorithm, 'public'));
+  const params = ASYMMETRIC_PARAMS[algorithm];
+
+  return {
+    header,
+    verify: async (data, signature) => {
+      const bytes = fromHex(signature);
+      if (!bytes) {
+        return 'invalid';
+      }
+
+      const key = await getPublicKey();
+      const valid = await (await getSubtle()).verify(params.sign, key, bytes, new TextEncoder().encode(data));
+      return valid ? 'valid' : 'invalid';
+    }
+  };
+}
+
+/**
+ * Caches an imported key. A failed import is forgotten, so it is retried
+ * instead of leaving a rejected promise behind.
+ * @param load Imports the key
+ * @returns Function resolving to the imported key
+ */
+function cacheKey(load: () => Promise<CryptoKey>): () => Promise<CryptoKey> {
+  let key: Promise<CryptoKey> | null = null;
+
+  return () => {
+    key ??= load().catch(error => {
+      key = null;
+      throw error;
+    });
+    return key;
+  };
+}
+
+/**
+ * Imports a PEM or JWK key for WebCrypto
+ * @param key Key as configured
+ * @param algorithm Asymmetric signature algorithm
+ * @param type Whether the key is the private or the public half
+ * @returns Key usable for signing or verifying
+ */
+async function importKey(
+  key: SignatureKey | undefined,
+  algorithm: Exclude<SignatureAlgorithm, 'hmac'>,
+  type: 'private' | 'public'
+): Promise<CryptoKey> {
+  if (!key) {
+    throw new Error(`PoW Shield requires a ${type} key for ${algorithm} signatures`);
+  }
+
+  const params = ASYMMETRIC_PARAMS[algorithm];
+  const usages: KeyUsage[] = [type === 'private' ? 'sign' : 'verify'];
+  const subtle = await getSubtle();
+
+  // JWKs may arrive as JSON, e.g. from an environment variable
+  const jwk = typeof key === 'string' && key.trim().startsWith('{') ? JSON.parse(key) as JsonWebKey : key;
+  if (typeof jwk !== 'string') {
+    return subtle.importKey('jwk', jwk, params.key, false, usages);
+  }
+
+  const der = decodePem(jwk);
+  if (!der) {
+    throw new Error(`PoW Shield ${type} key is not valid PEM or JWK`);
+  }
+  return subtle.importKey(type === 'private' ? 'pkcs8' : 'spki', der, params.key, false, usages);
+}
+
+/**
+ * Decodes the body of a PEM block
+ * @param pem PEM text
+ * @returns DER bytes, or null if the text is not PEM
+ */
+function decodePem(pem: string): Uint8Array | null {
+  const match = pem.match(/-----BEGIN [A-Z ]+-----([\s\S]+?)-----END [A-Z ]+-----/);
+  if (!match) {
+    return null;
+  }
+
+  try {
+    const binary = atob(match[1].replace(/\s+/g, ''));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decodes a hex string
+ * @param hex Hex string
+ * @returns Bytes, or null if the string is not hex
+ */
+function fromHex(hex: string): Uint8Array | null {
+  if (hex.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(hex)) {
+    return null;
+  }
+
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Gets WebCrypto: the global in Workers, browsers and Node 19+, and
+ * node:crypto's webcrypto in older Node versions
+ * @returns SubtleCrypto
+ */
+async function getSubtle(): Promise<SignatureCrypto> {
+  const subtle = globalThis.crypto?.subtle;
+  if (subtle) {
+    return subtle;
+  }
+
+  try {
+    const { webcrypto } = await import('node:crypto');
+    if (webcrypto?.subtle) {
+      return webcrypto.subtle;
+    }
+  } catch {
+    // Not Node
+  }
+  throw new Error('PoW Shield asymmetric signatures require WebCrypto');
+}
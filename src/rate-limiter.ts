@@ -0,0 +1,122 @@
+import type { PowShieldConfig } from './config.js';
+import type { KVNamespaceLike, PowShieldBindings } from './nonce-store.js';
+import type { DurableObjectNamespaceLike } from './coordinator.js';
+import { CoordinatorClient } from './coordinator.js';
+import type { RateLimitPolicy, RateLimitResult, RateLimitState } from './utils/rate-limit.js';
+import { applyRateLimit } from './utils/rate-limit.js';
+import { LRUCache } from 'lru-cache';
+
+/**
+ * Counts requests per key, e.g. per client IP
+ */
+export interface RateLimiter {
+  /**
+   * Counts a request against a limit
+   * @param key Counter key
+   * @param policy Limit to apply
+   * @returns Outcome, including whether the request is allowed
+   */
+  consume(key: string, policy: RateLimitPolicy): Promise<RateLimitResult>;
+}
+
+/**
+ * Rate limiter kept in memory. Each Worker isolate has its own counters.
+ */
+export class MemoryRateLimiter implements RateLimiter {
+  private cache: LRUCache<string, RateLimitState>;
+
+  constructor(maxSize: number = 10000) {
+    this.cache = new LRUCache({ max: maxSize });
+  }
+
+  async consume(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+    const now = Date.now();
+    const { state, result, expiresAt } = applyRateLimit(this.cache.get(key), policy, now);
+
+    // Counters are dropped once they no longer limit anything
+    this.cache.set(key, state, { ttl: Math.max(1, expiresAt - now) });
+    return result;
+  }
+}
+
+/**
+ * Rate limiter backed by Workers KV. Counters are shared across isolates, but limits are approximate:
+ * KV is eventually consistent, concurrent requests overwrite each other's updates, and KV accepts
+ * about one write per second to each key, so busy counters lose counts.
+ *
+ * Storage errors fail open. A failed read counts the request against a fresh counter and a
+ * failed write is dropped, so a KV outage or write limit does not turn into 500 responses;
+ * the PoW check still applies to every request.
+ */
+export class KVRateLimiter implements RateLimiter {
+  // KV rejects expiration TTLs below 60 seconds
+  private static readonly MIN_TTL = 60;
+
+  private namespace: KVNamespaceLike;
+  private prefix: string;
+
+  constructor(namespace: KVNamespaceLike, prefix: string = 'rate:') {
+    this.namespace = namespace;
+    this.prefix = prefix;
+  }
+
+  async consume(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+    const now = Date.now();
+    const storageKey = this.prefix + key;
+
+    const stored = await this.namespace.get(storageKey).catch(() => null);
+    const { state, result, expiresAt } = applyRateLimit(
+      stored !== null ? JSON.parse(stored) as RateLimitState : undefined,
+      policy,
+      now
+    );
+
+    // Rejected requests leave the count where it was, so they are not written. This keeps
+    // clients over their limit from spending the key's write allowance.
+    if (result.allowed) {
+      await this.namespace.put(storageKey, JSON.stringify(state), {
+        expirationTtl: Math.max(Math.ceil((expiresAt - now) / 1000), KVRateLimiter.MIN_TTL)
+      }).catch(() => undefined);
+    }
+    return result;
+  }
+}
+
+/**
+ * Rate limiter backed by the PowShieldCoordinator Durable Object, which
+ * updates each counter atomically for all isolates and colos
+ */
+export class DurableObjectRateLimiter implements RateLimiter {
+  private coordinator: CoordinatorClient;
+
+  constructor(namespace: DurableObjectNamespaceLike, name?: string) {
+    this.coordinator = new CoordinatorClient(namespace, name);
+  }
+
+  async consume(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+    return this.coordinator.countRequest(key, policy);
+  }
+}
+
+/**
+ * Creates the rate limiter for the storage selected by the cacheType setting
+ * @param config Configuration
+ * @param bindings Cloudflare env bindings
+ * @returns Rate limiter
+ */
+export function createRateLimiter(config: PowShieldConfig, bindings: PowShieldBindings = {}): RateLimiter {
+  switch (config.cacheType) {
+    case 'kv':
+      if (!bindings.kv) {
+        throw new Error("PoW Shield cacheType 'kv' requires a KV namespace binding");
+      }
+      return new KVRateLimiter(bindings.kv);
+    case 'durableObject':
+      if (!bindings.durableObject) {
+        throw new Error("PoW Shield cacheType 'durableObject' requires a Durable Object namespace binding");
+      }
+      return new DurableObjectRateLimiter(bindings.durableObject);
+    default:
+      return new MemoryRateLimiter(config.cacheSize || 10000);
+  }
+}
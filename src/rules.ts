@@ -0,0 +1,91 @@
+import type { EndpointRule, PowShieldConfig } from './config.js';
+import { matchRoute } from './utils/matcher.js';
+
+/**
+ * Endpoint rule with unset options filled in from the top-level config
+ */
+export interface ResolvedEndpointRule {
+  pattern: string;                  // Pattern that matched, as a string
+  params: Record<string, string>;   // Params captured by the pattern
+  difficulty: number;               // Number of leading zero bits required
+  timestampTolerance: number;       // Seconds
+  requestsPerMinute?: number;       // Per-rule rate limit, if the rule sets one
+}
+
+/**
+ * Finds the rule protecting a request. Exclusions are checked first, wherever
+ * they are listed; then rules are checked in order and the first match wins.
+ * Shared by client, Worker and server so all three agree on what is protected and how.
+ * @param config Configuration
+ * @param path Request path without query string
+ * @param method HTTP method
+ * @returns Matching rule, or null if the request is not protected
+ */
+export function findEndpointRule(
+  config: PowShieldConfig,
+  path: string,
+  method: string = 'GET'
+): ResolvedEndpointRule | null {
+  const rules = (config.endpoints || []).map(toEndpointRule);
+
+  // Exclusions win over any rule, e.g. protect /api/* except /api/health
+  if (rules.some(rule => rule.exclude && matchRule(rule, path, method))) {
+    return null;
+  }
+
+  for (const rule of rules) {
+    if (rule.exclude) {
+      continue;
+    }
+
+    const params = matchRule(rule, path, method);
+    if (!params) {
+      continue;
+    }
+
+    return {
+      pattern: String(rule.pattern),
+      params,
+      difficulty: rule.difficulty ?? (config.difficulty || 4),
+      timestampTolerance: rule.timestampTolerance ?? (config.timestampTolerance || 30),
+      requestsPerMinute: rule.requestsPerMinute
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Converts an `endpoints` entry to a rule
+ * @param entry Path pattern (prefixed with '!' to exclude), regular expression or rule
+ * @returns Rule
+ */
+export function toEndpointRule(entry: string | RegExp | EndpointRule): EndpointRule {
+  if (typeof entry === 'string') {
+    return entry.startsWith('!')
+      ? { pattern: entry.slice(1), exclude: true }
+      : { pattern: entry };
+  }
+
+  if (entry instanceof RegExp) {
+    return { pattern: entry };
+  }
+
+  return entry;
+}
+
+/**
+ * Matches a request against a rule's pattern and methods
+ * @param rule Endpoint rule
+ * @param path Request path
+ * @param method HTTP method
+ * @returns Captured params, or null if the rule does not apply
+ */
+function matchRule(rule: EndpointRule, path: string, method: string): Record<string, string> | null {
+  const upperMethod = method.toUpperCase();
+  if (rule.methods && !rule.methods.some(ruleMethod => ruleMethod.toUpperCase() === upperMethod)) {
+    return null;
+  }
+
+  return matchRoute(path, rule.pattern, rule.regex);
+}
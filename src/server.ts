@@ -1,12 +1,55 @@
 import type { PowShieldConfig } from './config.js';
 import { validateAndMergeConfig } from './config.js';
 import { CryptoUtils } from './utils/crypto.js';
+import type { PowVerificationFailure } from './verifier.js';
+import { PowVerifier, toErrorBody } from './verifier.js';
+import { createChallenge } from './challenge.js';
+import type { RequestBinding } from './utils/stamp.js';
+import { canonicalizeQuery } from './utils/stamp.js';
+import { buildSigningString } from './utils/signing.js';
+import { isTimestampFresh } from './utils/time.js';
+import type { NonceStore } from './nonce-store.js';
+import { MemoryNonceStore } from './nonce-store.js';
+import type { ResolvedEndpointRule } from './rules.js';
+import { findEndpointRule } from './rules.js';
+import type { OriginVerifier } from './origin-signature.js';
+import { createOriginVerifier } from './origin-signature.js';
+import { PowErrorCode } from './errors.js';
+
+/**
+ * Framework-independent view of an incoming request
+ */
+interface ServerRequest {
+  path: string;                     // Request path without query string
+  method: string;                   // HTTP method
+  url: string;                      // Request URL including the query string
+  headers: Record<string, any>;     // Headers with lower-cased names
+  rawBody?: string | Uint8Array;    // Unparsed body, if the framework exposes one
+}
 
 export class PowServer {
   private config: PowShieldConfig;
+  private nonceStore: NonceStore;
+  private verifier: PowVerifier | null = null;
+  private signatureVerifier: OriginVerifier;
 
-  constructor(config: Partial<PowShieldConfig>) {
+  /**
+   * @param config Configuration
+   * @param nonceStore Store for seen nonces (default: in-memory, per process)
+   */
+  constructor(config: Partial<PowShieldConfig>, nonceStore?: NonceStore) {
     this.config = validateAndMergeConfig(config, 'server');
+
+    // Seen nonces are tracked so signed requests cannot be replayed against the origin
+    this.nonceStore = nonceStore || new MemoryNonceStore(this.config.cacheSize || 10000);
+
+    // Checks signatures made with the shared secret, or with the Worker's private key
+    this.signatureVerifier = createOriginVerifier(this.config);
+
+    // Standalone servers verify PoW stamps themselves
+    if (this.config.server?.standalone) {
+      this.verifier = new PowVerifier(this.config, this.nonceStore);
+    }
   }
 
   /**
@@ -14,43 +57,35 @@ export class PowServer {
    * @returns Express middleware function
    */
   expressMiddleware() {
-    return (req: any, res: any, next: any) => {
-      // Skip validation for non-protected endpoints
-      if (!this.isProtectedEndpoint(req.path)) {
-        return next();
+    return async (req: any, res: any, next: any) => {
+      // Serve challenges in standalone challenge mode
+      if (this.isChallengeRoute(req.path, req.method)) {
+        return res.status(200).json(createChallenge(this.config));
       }
 
-      // Check for HMAC header
-      const hmacSignature = req.headers['x-hmac'];
-      if (!hmacSignature) {
-        if (this.config.server?.strictMode) {
-          return res.status(403).send('Missing HMAC signature');
-        }
+      // Skip validation for non-protected endpoints
+      const rule = findEndpointRule(this.config, req.path, req.method);
+      if (!rule) {
         return next();
       }
 
-      // Extract required headers for validation
-      const timestamp = req.headers['x-timestamp'];
-      const nonce = req.headers['x-nonce'];
-      const context = req.headers['x-context'];
-
-      if (!timestamp || !nonce || !context) {
-        return res.status(400).send('Missing required headers');
+      let failure: PowVerificationFailure | null;
+      try {
+        failure = await this.validateRequest({
+          path: req.path,
+          method: req.method,
+          url: req.originalUrl || req.url || req.path,
+          headers: req.headers,
+          rawBody: req.rawBody
+        }, rule);
+      } catch (error) {
+        return next(error);
       }
-
-      // Validate HMAC
-      const hmacData = `${timestamp}:${nonce}:${context}`;
-      const expectedHmac = CryptoUtils.hmac(
-        hmacData, 
-        this.config.secret || '', 
-        this.config.hmacAlgorithm
-      );
-
-      if (hmacSignature !== expectedHmac) {
-        return res.status(403).send('Invalid HMAC signature');
+      if (failure) {
+        return res.status(failure.status).json(toErrorBody(failure));
       }
 
-      // HMAC is valid, proceed with request
+      // Request is valid, proceed
       next();
     };
   }
@@ -62,43 +97,34 @@ export class PowServer {
   fastifyPlugin() {
     const plugin = (fastify: any, options: any, done: any) => {
       fastify.addHook('preHandler', (request: any, reply: any, done: any) => {
-        // Skip validation for non-protected endpoints
-        if (!this.isProtectedEndpoint(request.url)) {
-          return done();
-        }
+        // Fastify's url includes the query string
+        const path = request.url.split('?')[0];
 
-        // Check for HMAC header
-        const hmacSignature = request.headers['x-hmac'];
-        if (!hmacSignature) {
-          if (this.config.server?.strictMode) {
-            return reply.code(403).send('Missing HMAC signature');
-          }
-          return done();
+        // Serve challenges in standalone challenge mode
+        if (this.isChallengeRoute(path, request.method)) {
+          return reply.code(200).send(createChallenge(this.config));
         }
 
-        // Extract required headers for validation
-        const timestamp = request.headers['x-timestamp'];
-        const nonce = request.headers['x-nonce'];
-        const context = request.headers['x-context'];
-
-        if (!timestamp || !nonce || !context) {
-          return reply.code(400).send('Missing required headers');
+        // Skip validation for non-protected endpoints
+        const rule = findEndpointRule(this.config, path, request.method);
+        if (!rule) {
+          return done();
         }
 
-        // Validate HMAC
-        const hmacData = `${timestamp}:${nonce}:${context}`;
-        const expectedHmac = CryptoUtils.hmac(
-          hmacData, 
-          this.config.secret || '', 
-          this.config.hmacAlgorithm
-        );
-
-        if (hmacSignature !== expectedHmac) {
-          return reply.code(403).send('Invalid HMAC signature');
-        }
+        this.validateRequest({
+          path,
+          method: request.method,
+          url: request.url,
+          headers: request.headers,
+          rawBody: request.rawBody
+        }, rule).then(failure => {
+          if (failure) {
+            return reply.code(failure.status).send(toErrorBody(failure));
+          }
 
-        // HMAC is valid, proceed with request
-        done();
+          // Request is valid, proceed
+          done();
+        }, done);
       });
 
       done();
@@ -113,75 +139,187 @@ export class PowServer {
    */
   koaMiddleware() {
     return async (ctx: any, next: any) => {
-      // Skip validation for non-protected endpoints
-      if (!this.isProtectedEndpoint(ctx.path)) {
-        return next();
+      // Serve challenges in standalone challenge mode
+      if (this.isChallengeRoute(ctx.path, ctx.method)) {
+        ctx.status = 200;
+        ctx.body = createChallenge(this.config);
+        return;
       }
 
-      // Check for HMAC header
-      const hmacSignature = ctx.headers['x-hmac'];
-      if (!hmacSignature) {
-        if (this.config.server?.strictMode) {
-          ctx.status = 403;
-          ctx.body = 'Missing HMAC signature';
-          return;
-        }
+      // Skip validation for non-protected endpoints
+      const rule = findEndpointRule(this.config, ctx.path, ctx.method);
+      if (!rule) {
         return next();
       }
 
-      // Extract required headers for validation
-      const timestamp = ctx.headers['x-timestamp'];
-      const nonce = ctx.headers['x-nonce'];
-      const context = ctx.headers['x-context'];
-
-      if (!timestamp || !nonce || !context) {
-        ctx.status = 400;
-        ctx.body = 'Missing required headers';
+      const failure = await this.validateRequest({
+        path: ctx.path,
+        method: ctx.method,
+        url: ctx.originalUrl || ctx.url || ctx.path,
+        headers: ctx.headers,
+        rawBody: ctx.request?.rawBody
+      }, rule);
+      if (failure) {
+        ctx.status = failure.status;
+        ctx.body = toErrorBody(failure);
         return;
       }
 
-      // Validate HMAC
-      const hmacData = `${timestamp}:${nonce}:${context}`;
-      const expectedHmac = CryptoUtils.hmac(
-        hmacData, 
-        this.config.secret || '', 
-        this.config.hmacAlgorithm
-      );
-
-      if (hmacSignature !== expectedHmac) {
-        ctx.status = 403;
-        ctx.body = 'Invalid HMAC signature';
-        return;
-      }
-
-      // HMAC is valid, proceed with request
+      // Request is valid, proceed
       await next();
     };
   }
 
   /**
-   * Checks if an endpoint is in the protected list
-   * @param endpoint Endpoint to check
-   * @returns True if the endpoint is protected
+   * Validates a request to a protected endpoint
+   * @param request Incoming request
+   * @param rule Endpoint rule protecting the request
+   * @returns Failure, or null if the request may proceed
    */
-  private isProtectedEndpoint(endpoint: string): boolean {
-    if (!this.config.endpoints || this.config.endpoints.length === 0) {
-      return false;
+  private async validateRequest(request: ServerRequest, rule: ResolvedEndpointRule): Promise<PowVerificationFailure | null> {
+    const { headers } = request;
+
+    // Standalone servers check the PoW stamp directly
+    if (this.verifier) {
+      return this.verifier.verify({
+        endpoint: request.path,
+        getHeader: name => headers[name.toLowerCase()],
+        request: this.config.stampBinding === 'request' ? this.getRequestBinding(request) : undefined,
+        difficulty: rule.difficulty,
+        timestampTolerance: rule.timestampTolerance
+      });
+    }
+
+    // Check for HMAC header
+    const hmacSignature = headers[this.signatureVerifier.header.toLowerCase()];
+    if (!hmacSignature) {
+      if (this.config.server?.strictMode) {
+        return { status: 403, code: PowErrorCode.HmacMissing, message: 'Missing HMAC signature' };
+      }
+      return null;
+    }
+
+    // Extract required headers for validation
+    const timestamp = headers['x-timestamp'];
+    const nonce = headers['x-nonce'];
+    const context = headers['x-context'];
+
+    if (!timestamp || !nonce || !context) {
+      return { status: 400, code: PowErrorCode.MissingHeaders, message: 'Missing required headers' };
+    }
+
+    // Validate timestamp, in case the edge is bypassed or a signed request leaked
+    const tolerance = rule.timestampTolerance;
+    const maxSkew = this.config.maxClockSkew ?? 10;
+    if (!isTimestampFresh(timestamp, tolerance, maxSkew)) {
+      return { status: 403, code: PowErrorCode.Expired, message: 'Timestamp expired or invalid' };
+    }
+
+    // Signatures without a version header come from Workers predating v2
+    const version = headers['x-hmac-version'] || 'v1';
+    if (version !== 'v1' && version !== 'v2') {
+      return { status: 403, code: PowErrorCode.HmacUnsupported, message: 'Unsupported HMAC version' };
+    }
+    if (version === 'v1' && !this.config.server?.acceptLegacyHmac) {
+      return { status: 403, code: PowErrorCode.HmacUnsupported, message: 'Legacy HMAC signature not accepted' };
     }
-    
-    return this.config.endpoints.some(protectedEndpoint => {
-      // Exact match
-      if (endpoint === protectedEndpoint) {
-        return true;
+
+    // v2 signatures cover method, path, query and the body digest
+    let binding: RequestBinding | undefined;
+    if (version === 'v2') {
+      const contentDigest = headers['x-content-digest'];
+      if (!contentDigest) {
+        return { status: 400, code: PowErrorCode.MissingHeaders, message: 'Missing required headers' };
       }
-      
-      // Wildcard match (e.g., /api/*)
-      if (protectedEndpoint.endsWith('*')) {
-        const prefix = protectedEndpoint.slice(0, -1);
-        return endpoint.startsWith(prefix);
+
+      // Check the digest against the body itself when the framework exposes it
+      const bodyDigest = request.rawBody !== undefined ? this.hashBody(request.rawBody) : undefined;
+      if (bodyDigest !== undefined && !CryptoUtils.timingSafeEqual(String(contentDigest), bodyDigest)) {
+        return { status: 403, code: PowErrorCode.ContentDigestMismatch, message: 'Content digest mismatch' };
       }
-      
-      return false;
+
+      binding = this.getRequestBinding(request, contentDigest);
+    }
+
+    // Validate the signature, made with the shared secret or the Worker's private key
+    const hmacData = buildSigningString(version, {
+      endpoint: request.url.split('?')[0],
+      timestamp,
+      nonce,
+      context,
+      request: binding
     });
+
+    // Rotating HMAC keys are named by the Worker
+    const keyId = headers['x-hmac-key-id'];
+    const verification = await this.signatureVerifier.verify(
+      hmacData,
+      String(hmacSignature),
+      keyId ? String(keyId) : undefined
+    );
+
+    if (verification === 'unknown-key') {
+      return { status: 403, code: PowErrorCode.HmacInvalid, message: 'Unknown or expired HMAC key' };
+    }
+    if (verification !== 'valid') {
+      return { status: 403, code: PowErrorCode.HmacInvalid, message: 'Invalid HMAC signature' };
+    }
+
+    // Check for nonce replay, recording nonces only once the signature is known to be valid
+    const fresh = await this.nonceStore.checkAndSet(`${timestamp}:${nonce}`, tolerance + maxSkew);
+    if (!fresh) {
+      return { status: 403, code: PowErrorCode.Replay, message: 'Nonce already used' };
+    }
+
+    return null;
+  }
+
+  /**
+   * Collects the method, canonical query and body digest of a request.
+   * Hashing the body needs the unparsed body, e.g. a `rawBody` property set by the body parser.
+   * @param request Incoming request
+   * @param bodyHash Body digest to use instead of hashing the raw body
+   * @returns Request binding
+   */
+  private getRequestBinding(
+    request: ServerRequest,
+    bodyHash: string = this.hashBody(request.rawBody)
+  ): RequestBinding {
+    const queryIndex = request.url.indexOf('?');
+    const query = queryIndex === -1 ? '' : request.url.slice(queryIndex + 1);
+
+    return {
+      method: (request.method || 'GET').toUpperCase(),
+      query: canonicalizeQuery(query),
+      bodyHash
+    };
+  }
+
+  /**
+   * Hashes an unparsed request body
+   * @param rawBody Body as exposed by the framework (missing bodies hash as empty)
+   * @returns Hex-encoded SHA-256 hash
+   */
+  private hashBody(rawBody?: string | Uint8Array): string {
+    const body = typeof rawBody === 'string'
+      ? new TextEncoder().encode(rawBody)
+      : rawBody || new Uint8Array(0);
+
+    return CryptoUtils.sha256Bytes(body);
+  }
+
+  /**
+   * Checks if a request targets the challenge route of a standalone server
+   * @param path Request path
+   * @param method Request method
+   * @returns True if a challenge should be served
+   */
+  private isChallengeRoute(path: string, method: string): boolean {
+    return Boolean(
+      this.config.server?.standalone &&
+      this.config.challenge?.enabled &&
+      method === 'GET' &&
+      path === this.config.challenge.path
+    );
   }
-}
\ No newline at end of file
+}
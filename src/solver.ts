@@ -0,0 +1,398 @@
+import { difficultyTarget } from './utils/difficulty.js';
+import type { ScryptParams } from './utils/scrypt.js';
+import { SCRYPT_SALT } from './utils/scrypt.js';
+
+/**
+ * Nonce search for one stamp. The hashed input is prefix + nonce + suffix.
+ */
+export interface PowSolveTask {
+  prefix: string;
+  suffix: string;
+  difficulty: number;   // Number of leading zero bits required, may be fractional
+  scrypt?: ScryptParams; // Hash with scrypt instead of SHA-256
+}
+
+/**
+ * Nonce and the stamp it produces
+ */
+export interface PowSolution {
+  nonce: string;
+  stamp: string;
+  attempts: number;   // Hashes computed to find it, across all threads
+}
+
+/**
+ * Options for a nonce search on worker threads
+ */
+export interface SolveInWorkersOptions {
+  threads?: number;                       // Number of threads (default: one per CPU core)
+  signal?: AbortSignal;                   // Stops the search
+  onAttempts?: (attempts: number) => void; // Called with the running total of hashes computed
+}
+
+/**
+ * Task posted to a solver thread. Fractional difficulties are sent as a
+ * hex-encoded target, since BigInt cannot be structured-cloned everywhere.
+ */
+export type SolverTask = PowSolveTask & { target?: string };
+
+/**
+ * Message posted by a solver thread
+ */
+type SolverMessage =
+  | { type: 'progress'; attempts: number }
+  | { type: 'solution'; nonce: string; stamp: string; attempts: number };
+
+/**
+ * Running solver thread
+ */
+interface SolverThread {
+  terminate(): void;
+}
+
+// Hashes between progress messages from each thread. scrypt hashes take milliseconds, so they are reported sooner.
+const PROGRESS_INTERVAL = 65536;
+const SCRYPT_PROGRESS_INTERVAL = 16;
+
+// Search loop run by each thread. hash(), scrypt() and randomNonce() are defined per environment.
+// Each thread counts up from its own random prefix, so threads never repeat each other's nonces.
+const SEARCH_SOURCE = `
+function hasLeadingZeros(hash, difficulty) {
+  const fullNibbles = difficulty >> 2;
+  for (let i = 0; i < fullNibbles; i++) {
+    if (hash[i] !== '0') return false;
+  }
+  const remainingBits = difficulty & 3;
+  return remainingBits === 0 || (parseInt(hash[fullNibbles], 16) >> (4 - remainingBits)) === 0;
+}
+
+function search(task, post) {
+  const noncePrefix = randomNonce();
+  const target = task.target ? BigInt('0x' + task.target) : null;
+  const digest = task.scrypt ? input => scrypt(input, task.scrypt) : hash;
+  const interval = task.scrypt ? ${SCRYPT_PROGRESS_INTERVAL} : ${PROGRESS_INTERVAL};
+  for (let counter = 0; ; counter++) {
+    const nonce = noncePrefix + counter.toString(16);
+    const stamp = digest(task.prefix + nonce + task.suffix);
+    if (target !== null ? BigInt('0x' + stamp) < target : hasLeadingZeros(stamp, task.difficulty)) {
+      return post({ type: 'solution', nonce, stamp, attempts: counter + 1 });
+    }
+    if ((counter + 1) % interval === 0) {
+      post({ type: 'progress', attempts: counter + 1 });
+    }
+  }
+}
+`;
+
+// Node worker_threads: hash with node:crypto
+const NODE_SOURCE = `
+const { parentPort } = require('worker_threads');
+const { createHash, randomBytes, scryptSync } = require('crypto');
+const hash = input => createHash('sha256').update(input).digest('hex');
+const scrypt = (input, { N, r, p }) => scryptSync(input, '${SCRYPT_SALT}', 32, { N, r, p }).toString('hex');
+const randomNonce = () => randomBytes(16).toString('hex');
+${SEARCH_SOURCE}
+parentPort.once('message', task => search(task, message => parentPort.postMessage(message)));
+`;
+
+// Web Workers: SubtleCrypto is async and needs a secure context, so hash with a plain SHA-256,
+// and scrypt (RFC 7914) built on it, as in utils/scrypt.ts
+const BROWSER_SOURCE = `
+const K = new Uint32Array(64);
+const H = new Uint32Array(8);
+const frac = x => (x - Math.floor(x)) * 4294967296;
+for (let n = 2, found = 0; found < 64; n++) {
+  let prime = true;
+  for (let d = 2; d * d <= n; d++) if (n % d === 0) { prime = false; break; }
+  if (!prime) continue;
+  if (found < 8) H[found] = frac(Math.pow(n, 1 / 2));
+  K[found++] = frac(Math.pow(n, 1 / 3));
+}
+
+const encoder = new TextEncoder();
+const w = new Uint32Array(64);
+
+function sha256(bytes) {
+  const length = ((bytes.length + 72) >> 6) << 6;
+  const data = new Uint8Array(length);
+  data.set(bytes);
+  data[bytes.length] = 0x80;
+  const view = new DataView(data.buffer);
+  view.setUint32(length - 4, bytes.length * 8);
+
+  const h = H.slice();
+  for (let offset = 0; offset < length; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const x = w[i - 15], y = w[i - 2];
+      const s0 = (x >>> 7 | x << 25) ^ (x >>> 18 | x << 14) ^ (x >>> 3);
+      const s1 = (y >>> 17 | y << 15) ^ (y >>> 19 | y << 13) ^ (y >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+
+    let a = h[0], b = h[1], c = h[2], d = h[3], e = h[4], f = h[5], g = h[6], k = h[7];
+    for (let i = 0; i < 64; i++) {
+      const t1 = (k + ((e >>> 6 | e << 26) ^ (e >>> 11 | e << 21) ^ (e >>> 25 | e << 7)) + ((e & f) ^ (~e & g)) + K[i] + w[i]) | 0;
+      const t2 = (((a >>> 2 | a << 30) ^ (a >>> 13 | a << 19) ^ (a >>> 22 | a << 10)) + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+      k = g; g = f; f = e; e = (d + t1) | 0; d = c; c = b; b = a; a = (t1 + t2) | 0;
+    }
+    h[0] += a; h[1] += b; h[2] += c; h[3] += d; h[4] += e; h[5] += f; h[6] += g; h[7] += k;
+  }
+
+  const digest = new Uint8Array(32);
+  const digestView = new DataView(digest.buffer);
+  for (let i = 0; i < 8; i++) digestView.setUint32(i * 4, h[i]);
+  return digest;
+}
+
+function toHex(bytes) {
+  let hex = '';
+  for (let i = 0; i < bytes.length; i++) hex += bytes[i].toString(16).padStart(2, '0');
+  return hex;
+}
+
+const hash = input => toHex(sha256(encoder.encode(input)));
+
+function hmac(key, message) {
+  if (key.length > 64) key = sha256(key);
+  const inner = new Uint8Array(64 + message.length);
+  const outer = new Uint8Array(64 + 32);
+  for (let i = 0; i < 64; i++) {
+    inner[i] = (key[i] || 0) ^ 0x36;
+    outer[i] = (key[i] || 0) ^ 0x5c;
+  }
+  inner.set(message, 64);
+  outer.set(sha256(inner), 64);
+  return sha256(outer);
+}
+
+// PBKDF2-HMAC-SHA256 with one iteration, as scrypt uses it
+function pbkdf2(password, salt, length) {
+  const key = new Uint8Array(length);
+  const block = new Uint8Array(salt.length + 4);
+  block.set(salt);
+  for (let i = 1, offset = 0; offset < length; i++, offset += 32) {
+    new DataView(block.buffer).setUint32(salt.length, i);
+    key.set(hmac(password, block).subarray(0, length - offset), offset);
+  }
+  return key;
+}
+
+const R = (a, b) => a << b | a >>> (32 - b);
+const x = new Uint32Array(16);
+
+function salsa20_8(B) {
+  x.set(B);
+  for (let i = 0; i < 8; i += 2) {
+    x[4] ^= R(x[0] + x[12], 7); x[8] ^= R(x[4] + x[0], 9); x[12] ^= R(x[8] + x[4], 13); x[0] ^= R(x[12] + x[8], 18);
+    x[9] ^= R(x[5] + x[1], 7); x[13] ^= R(x[9] + x[5], 9); x[1] ^= R(x[13] + x[9], 13); x[5] ^= R(x[1] + x[13], 18);
+    x[14] ^= R(x[10] + x[6], 7); x[2] ^= R(x[14] + x[10], 9); x[6] ^= R(x[2] + x[14], 13); x[10] ^= R(x[6] + x[2], 18);
+    x[3] ^= R(x[15] + x[11], 7); x[7] ^= R(x[3] + x[15], 9); x[11] ^= R(x[7] + x[3], 13); x[15] ^= R(x[11] + x[7], 18);
+    x[1] ^= R(x[0] + x[3], 7); x[2] ^= R(x[1] + x[0], 9); x[3] ^= R(x[2] + x[1], 13); x[0] ^= R(x[3] + x[2], 18);
+    x[6] ^= R(x[5] + x[4], 7); x[7] ^= R(x[6] + x[5], 9); x[4] ^= R(x[7] + x[6], 13); x[5] ^= R(x[4] + x[7], 18);
+    x[11] ^= R(x[10] + x[9], 7); x[8] ^= R(x[11] + x[10], 9); x[9] ^= R(x[8] + x[11], 13); x[10] ^= R(x[9] + x[8], 18);
+    x[12] ^= R(x[15] + x[14], 7); x[13] ^= R(x[12] + x[15], 9); x[14] ^= R(x[13] + x[12], 13); x[15] ^= R(x[14] + x[13], 18);
+  }
+  for (let i = 0; i < 16; i++) B[i] += x[i];
+}
+
+function blockMix(B, Y, r, T) {
+  T.set(B.subarray((2 * r - 1) * 16, 2 * r * 16));
+  for (let i = 0; i < 2 * r; i++) {
+    for (let k = 0; k < 16; k++) T[k] ^= B[i * 16 + k];
+    salsa20_8(T);
+    Y.set(T, ((i >> 1) + (i & 1) * r) * 16);
+  }
+  B.set(Y);
+}
+
+const salt = encoder.encode('${SCRYPT_SALT}');
+
+function scrypt(input, { N, r, p }) {
+  const password = encoder.encode(input);
+  const blockWords = 32 * r;
+  const bytes = pbkdf2(password, salt, p * 128 * r);
+  const blocks = new Uint32Array(bytes.length / 4);
+  for (let i = 0; i < blocks.length; i++) {
+    blocks[i] = bytes[i * 4] | bytes[i * 4 + 1] << 8 | bytes[i * 4 + 2] << 16 | bytes[i * 4 + 3] << 24;
+  }
+
+  const V = new Uint32Array(blockWords * N);
+  const X = new Uint32Array(blockWords);
+  const Y = new Uint32Array(blockWords);
+  const T = new Uint32Array(16);
+  for (let b = 0; b < p; b++) {
+    X.set(blocks.subarray(b * blockWords, (b + 1) * blockWords));
+    for (let i = 0; i < N; i++) {
+      V.set(X, i * blockWords);
+      blockMix(X, Y, r, T);
+    }
+    for (let i = 0; i < N; i++) {
+      const j = X[(2 * r - 1) * 16] & (N - 1);
+      for (let k = 0; k < blockWords; k++) X[k] ^= V[j * blockWords + k];
+      blockMix(X, Y, r, T);
+    }
+    blocks.set(X, b * blockWords);
+  }
+
+  for (let i = 0; i < blocks.length; i++) {
+    bytes[i * 4] = blocks[i]; bytes[i * 4 + 1] = blocks[i] >>> 8; bytes[i * 4 + 2] = blocks[i] >>> 16; bytes[i * 4 + 3] = blocks[i] >>> 24;
+  }
+  return toHex(pbkdf2(password, bytes, 32));
+}
+
+const randomNonce = () => toHex(crypto.getRandomValues(new Uint8Array(16)));
+${SEARCH_SOURCE}
+self.onmessage = event => search(event.data, message => self.postMessage(message));
+`;
+
+/**
+ * Searches for a nonce on several threads at once: Web Workers in browsers,
+ * worker_threads in Node. All threads are stopped as soon as one finds a solution.
+ * @param task Nonce search
+ * @param options Thread count, abort signal and progress callback
+ * @returns Solution, or null if threads are not available here
+ */
+export async function solveInWorkers(task: PowSolveTask, options: SolveInWorkersOptions = {}): Promise<PowSolution | null> {
+  const { signal, onAttempts } = options;
+  const start = await getThreadFactory();
+  if (!start) {
+    return null;
+  }
+
+  const count = options.threads ?? await getDefaultThreadCount();
+  if (count < 1) {
+    return null;
+  }
+
+  const threadTask = toSolverTask(task);
+
+  const running: SolverThread[] = [];
+  let onAbort: (() => void) | undefined;
+
+  try {
+    return await new Promise<PowSolution | null>((resolve, reject) => {
+      const attempts = new Array<number>(count).fill(0);
+      const total = () => attempts.reduce((sum, value) => sum + value, 0);
+      let failed = 0;
+
+      onAbort = () => reject(new Error('PoW solving aborted'));
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort);
+
+      const onMessage = (index: number, message: SolverMessage) => {
+        attempts[index] = message.attempts;
+        if (message.type === 'solution') {
+          resolve({ nonce: message.nonce, stamp: message.stamp, attempts: total() });
+        } else {
+          onAttempts?.(total());
+        }
+      };
+
+      const onError = () => {
+        // Threads can fail to load, e.g. when a Content Security Policy blocks blob: workers
+        if (++failed === count) {
+          resolve(null);
+        }
+      };
+
+      for (let i = 0; i < count; i++) {
+        try {
+          running.push(start(threadTask, message => onMessage(i, message), onError));
+        } catch {
+          onError();
+        }
+      }
+    });
+  } finally {
+    if (onAbort) {
+      signal?.removeEventListener('abort', onAbort);
+    }
+    running.forEach(thread => thread.terminate());
+  }
+}
+
+/**
+ * Gets the Web Worker source and task for a search run by a page, such as
+ * the interstitial page the Cloudflare Worker serves to browsers
+ * @param task Nonce search
+ * @returns Web Worker source, and the task to post to it
+ */
+export function getBrowserSolver(task: PowSolveTask): { source: string; task: SolverTask } {
+  return { source: BROWSER_SOURCE, task: toSolverTask(task) };
+}
+
+/**
+ * Converts a search into the task posted to solver threads
+ * @param task Nonce search
+ * @returns Task with the hex-encoded target of a fractional difficulty
+ */
+function toSolverTask(task: PowSolveTask): SolverTask {
+  return Number.isInteger(task.difficulty)
+    ? task
+    : { ...task, target: difficultyTarget(task.difficulty).toString(16) };
+}
+
+type ThreadFactory = (
+  task: SolverTask,
+  onMessage: (message: SolverMessage) => void,
+  onError: () => void
+) => SolverThread;
+
+/**
+ * Finds the thread implementation for the current environment
+ * @returns Function starting one solver thread, or null if none is available
+ */
+async function getThreadFactory(): Promise<ThreadFactory | null> {
+  if (typeof Worker !== 'undefined' && typeof Blob !== 'undefined' && typeof URL?.createObjectURL === 'function') {
+    return (task, onMessage, onError) => {
+      const url = URL.createObjectURL(new Blob([BROWSER_SOURCE], { type: 'text/javascript' }));
+      try {
+        const worker = new Worker(url);
+        worker.onmessage = event => onMessage(event.data);
+        worker.onerror = () => onError();
+        worker.postMessage(task);
+        return worker;
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+    };
+  }
+
+  if (typeof process !== 'undefined' && process.versions?.node) {
+    try {
+      const { Worker: NodeWorker } = await import('node:worker_threads');
+      return (task, onMessage, onError) => {
+        const worker = new NodeWorker(NODE_SOURCE, { eval: true });
+        worker.on('message', onMessage);
+        worker.once('error', onError);
+        worker.postMessage(task);
+        return { terminate: () => { worker.terminate(); } };
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Gets the number of threads to use when none is configured
+ * @returns Number of CPU cores
+ */
+async function getDefaultThreadCount(): Promise<number> {
+  if (typeof navigator !== 'undefined' && navigator.hardwareConcurrency) {
+    return navigator.hardwareConcurrency;
+  }
+
+  try {
+    const os = await import('node:os');
+    return os.cpus().length || 1;
+  } catch {
+    return 1;
+  }
+}
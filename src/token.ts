@@ -0,0 +1,213 @@
+import type { PowShieldConfig } from './config.js';
+import { CryptoUtils } from './utils/crypto.js';
+import { getSigningKey, getVerificationSecrets } from './keys.js';
+
+/**
+ * Short-lived token issued for a solved stamp, accepted in place of PoW.
+ * Context and scope are covered by the signature but not sent, so a token
+ * only verifies for the client and endpoint rule it was issued to.
+ */
+export interface PowAccessToken {
+  id: string;          // Random ID the request budget is counted under
+  expires: number;     // Unix timestamp (seconds) after which the token is rejected
+  budget: number;      // Requests the token may be used for
+  signature: string;   // HMAC over the fields above, the context and the scope
+}
+
+/**
+ * What a token stands in for. Each kind is signed with its own prefix, so a
+ * token of one kind never verifies as the other, whatever its scope.
+ * - access: PoW for endpoints matching one rule, sent in X-Pow-Token
+ * - clearance: PoW for every protected endpoint, sent in the interstitial page's cookie
+ */
+type TokenKind = 'access' | 'clearance';
+
+/**
+ * Creates a signed access token
+ * @param config Configuration with the shared secret and token settings
+ * @param context X-Context of the client that solved the stamp
+ * @param scope Pattern of the endpoint rule the stamp was solved for
+ * @param now Current time in milliseconds
+ * @returns Signed token
+ */
+export function createAccessToken(
+  config: PowShieldConfig,
+  context: string,
+  scope: string,
+  now: number = Date.now()
+): PowAccessToken {
+  return issueToken('access', config, context, scope, now, config.token?.ttl || 300, config.token?.maxRequests || 100);
+}
+
+/**
+ * Creates the signed token of a clearance cookie, set by the interstitial page
+ * @param config Configuration with the shared secret and interstitial settings
+ * @param context Context the Worker derived from the request that solved the stamp
+ * @param now Current time in milliseconds
+ * @returns Signed token
+ */
+export function createClearanceToken(config: PowShieldConfig, context: string, now: number = Date.now()): PowAccessToken {
+  const interstitial = config.interstitial || {};
+  return issueToken('clearance', config, context, '', now, interstitial.ttl || 3600, interstitial.maxRequests || 1000);
+}
+
+/**
+ * Checks that a token was issued with our secret, for this client and endpoint rule, and has not expired.
+ * The request budget is counted separately.
+ * @param token Token to check
+ * @param config Configuration with the shared secret
+ * @param context X-Context of the request
+ * @param scope Pattern of the endpoint rule matching the request
+ * @param now Current time in milliseconds
+ * @returns True if the token is valid
+ */
+export function verifyAccessToken(
+  token: PowAccessToken,
+  config: PowShieldConfig,
+  context: string,
+  scope: string,
+  now: number = Date.now()
+): boolean {
+  return checkToken('access', token, config, context, scope, now);
+}
+
+/**
+ * Checks that a clearance token was issued with our secret, for this client, and has not expired.
+ * The request budget is counted separately.
+ * @param token Token to check
+ * @param config Configuration with the shared secret
+ * @param context Context the Worker derived from the request
+ * @param now Current time in milliseconds
+ * @returns True if the token is valid
+ */
+export function verifyClearanceToken(
+  token: PowAccessToken,
+  config: PowShieldConfig,
+  context: string,
+  now: number = Date.now()
+): boolean {
+  return checkToken('clearance', token, config, context, '', now);
+}
+
+/**
+ * Encodes a token for the X-Pow-Token header
+ * @param token Token to encode
+ * @returns Header value
+ */
+export function encodeAccessToken(token: PowAccessToken): string {
+  return `${token.id}.${token.expires}.${token.budget}.${token.signature}`;
+}
+
+/**
+ * Decodes an X-Pow-Token header value
+ * @param value Header value
+ * @returns Token, or null if the value is malformed
+ */
+export function decodeAccessToken(value: string): PowAccessToken | null {
+  const parts = value.split('.');
+  if (parts.length !== 4) {
+    return null;
+  }
+
+  const [id, expires, budget, signature] = parts;
+  const expiresNum = parseInt(expires, 10);
+  const budgetNum = parseInt(budget, 10);
+
+  if (!id || !signature || isNaN(expiresNum) || isNaN(budgetNum) || budgetNum < 1) {
+    return null;
+  }
+
+  return { id, expires: expiresNum, budget: budgetNum, signature };
+}
+
+/**
+ * Creates a signed token of any kind
+ * @param kind Token kind
+ * @param config Configuration with the shared secret
+ * @param context Client context the token is bound to
+ * @param scope Endpoint rule pattern the token is bound to, if any
+ * @param now Current time in milliseconds
+ * @param ttl Seconds the token stays valid
+ * @param budget Requests the token may be used for
+ * @returns Signed token
+ */
+function issueToken(
+  kind: TokenKind,
+  config: PowShieldConfig,
+  context: string,
+  scope: string,
+  now: number,
+  ttl: number,
+  budget: number
+): PowAccessToken {
+  const id = CryptoUtils.generateNonce();
+  const expires = Math.floor(now / 1000) + ttl;
+
+  return {
+    id,
+    expires,
+    budget,
+    signature: signToken(kind, id, expires, budget, context, scope, getSigningKey(config, now).secret, config)
+  };
+}
+
+/**
+ * Checks the expiry and signature of a token of any kind
+ * @param kind Token kind expected
+ * @param token Token to check
+ * @param config Configuration with the shared secret
+ * @param context Client context of the request
+ * @param scope Endpoint rule pattern of the request, if any
+ * @param now Current time in milliseconds
+ * @returns True if the token is valid
+ */
+function checkToken(
+  kind: TokenKind,
+  token: PowAccessToken,
+  config: PowShieldConfig,
+  context: string,
+  scope: string,
+  now: number
+): boolean {
+  if (Math.floor(now / 1000) > token.expires) {
+    return false;
+  }
+
+  // Tokens carry no key ID, so any active key may have signed them
+  const matches = getVerificationSecrets(config, undefined, now).map(secret => {
+    const expected = signToken(kind, token.id, token.expires, token.budget, context, scope, secret, config);
+    return CryptoUtils.timingSafeEqual(token.signature, expected);
+  });
+  return matches.includes(true);
+}
+
+/**
+ * Computes the signature of a token
+ * @param kind Token kind
+ * @param id Token ID
+ * @param expires Token expiry
+ * @param budget Token request budget
+ * @param context Client context the token is bound to
+ * @param scope Endpoint rule pattern the token is bound to
+ * @param secret Shared secret to sign with
+ * @param config Configuration with the HMAC algorithm
+ * @returns Hex-encoded HMAC signature
+ */
+function signToken(
+  kind: TokenKind,
+  id: string,
+  expires: number,
+  budget: number,
+  context: string,
+  scope: string,
+  secret: string,
+  config: PowShieldConfig
+): string {
+  // Prefixed so a token signature can never double as a challenge or origin HMAC, or as a token of the other kind.
+  // JSON keeps a pattern containing ':' from shifting the other fields.
+  return CryptoUtils.hmac(
+    `${kind === 'access' ? 'token' : 'clearance'}:${JSON.stringify([id, expires, budget, context, scope])}`,
+    secret,
+    config.hmacAlgorithm
+  );
+}
@@ -1,4 +1,9 @@
 import CryptoJS from 'crypto-js';
+import { bytesToWordArray, getHashBackend, hasLeadingZeroBits, toHex } from './hash.js';
+import type { ScryptParams } from './scrypt.js';
+import { SCRYPT_SALT, scrypt } from './scrypt.js';
+
+const SCRYPT_SALT_BYTES = new TextEncoder().encode(SCRYPT_SALT);
 
 /**
  * Utility class for cryptographic operations
@@ -13,6 +18,25 @@ export class CryptoUtils {
     return CryptoJS.SHA256(data).toString(CryptoJS.enc.Hex);
   }
 
+  /**
+   * Generates a SHA-256 hash of raw bytes
+   * @param data Input bytes
+   * @returns Hex-encoded hash
+   */
+  static sha256Bytes(data: Uint8Array): string {
+    return CryptoJS.SHA256(bytesToWordArray(data)).toString(CryptoJS.enc.Hex);
+  }
+
+  /**
+   * Generates a memory-hard scrypt hash of the input
+   * @param data Input data
+   * @param params Cost parameters
+   * @returns Hex-encoded 32-byte hash
+   */
+  static scrypt(data: string, params: ScryptParams): string {
+    return toHex(scrypt(new TextEncoder().encode(data), SCRYPT_SALT_BYTES, params, 32));
+  }
+
   /**
    * Generates an HMAC signature
    * @param data Data to sign
@@ -28,6 +52,31 @@ export class CryptoUtils {
     }
   }
 
+  /**
+   * Compares two hex-encoded digests in constant time, so response times do not
+   * reveal how much of an expected HMAC or stamp a guess got right. Pure
+   * JavaScript, so it behaves the same in Node, Workers and browsers.
+   * @param actual Value received, e.g. from a header
+   * @param expected Value computed locally
+   * @returns True if the values are equal, ignoring the case of hex digits
+   */
+  static timingSafeEqual(actual: string, expected: string): boolean {
+    if (typeof actual !== 'string' || typeof expected !== 'string') {
+      return false;
+    }
+
+    // Headers may carry upper-case hex; lower-case both so the case alone never causes a mismatch
+    const left = actual.toLowerCase();
+    const right = expected.toLowerCase();
+
+    // Always walk the expected value, so the time taken depends only on its length
+    let diff = left.length ^ right.length;
+    for (let i = 0; i < right.length; i++) {
+      diff |= (i < left.length ? left.charCodeAt(i) : 0) ^ right.charCodeAt(i);
+    }
+    return diff === 0;
+  }
+
   /**
    * Generates a random nonce
    * @returns Random hexadecimal string
@@ -38,26 +87,37 @@ export class CryptoUtils {
   }
 
   /**
-   * Checks if a hash has a specified number of leading zero bits
+   * Generates SHA-256 hashes of many inputs at once with the fastest backend
+   * available (node:crypto, WebCrypto, then crypto-js)
+   * @param inputs Input data
+   * @returns Hex-encoded hashes, in input order
+   */
+  static async sha256Batch(inputs: string[]): Promise<string[]> {
+    const backend = await getHashBackend();
+    const digests = await backend.digest(inputs);
+    return digests.map(toHex);
+  }
+
+  /**
+   * Checks if a hash has a specified number of leading zero bits. A fractional
+   * difficulty (e.g. 14.5) requires the hash to be below the matching target instead.
    * @param hash Hex-encoded hash
    * @param difficulty Number of leading zero bits required
    * @returns True if the hash has the required number of leading zero bits
    */
   static hasLeadingZeros(hash: string, difficulty: number): boolean {
-    // Convert to binary string
-    let binary = '';
-    for (let i = 0; i < hash.length; i++) {
-      const nibble = parseInt(hash[i], 16).toString(2).padStart(4, '0');
-      binary += nibble;
+    // Only decode the hex digits that cover the required bits; a target needs the whole hash
+    const nibbles = Number.isInteger(difficulty) ? Math.ceil(difficulty / 4) : 64;
+    const prefix = hash.slice(0, nibbles);
+    if (prefix.length < nibbles || !/^[0-9a-fA-F]*$/.test(prefix)) {
+      return false;
     }
-    
-    // Check for leading zeros
-    for (let i = 0; i < difficulty; i++) {
-      if (binary[i] !== '0') {
-        return false;
-      }
+
+    const bytes = new Uint8Array(Math.ceil(nibbles / 2));
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(prefix.substr(i * 2, 2).padEnd(2, '0'), 16);
     }
-    return true;
+    return hasLeadingZeroBits(bytes, difficulty);
   }
 
   /**
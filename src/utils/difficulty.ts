@@ -0,0 +1,63 @@
+// Bits in a stamp hash
+const HASH_BITS = 256;
+
+// Decimal places kept when a difficulty is sent in a header or challenge
+const DIFFICULTY_DECIMALS = 3;
+
+/**
+ * Computes the target a hash must be below to meet a difficulty: 2^(256 - difficulty).
+ * For whole difficulties this is the same as requiring that many leading zero bits;
+ * fractional difficulties fall in between, e.g. 14.5 takes about 2^14.5 attempts.
+ * @param difficulty Difficulty in bits
+ * @returns Exclusive upper bound for the hash, read as a 256-bit big-endian integer
+ */
+export function difficultyTarget(difficulty: number): bigint {
+  const bits = Math.min(Math.max(difficulty, 0), HASH_BITS);
+  const whole = Math.floor(bits);
+
+  // 2^(256 - bits) = 2^(1 - fraction) * 2^(255 - whole), where the first factor is
+  // in (1, 2] and is scaled up by 2^52 to keep full double precision
+  const mantissa = BigInt(Math.round(Math.pow(2, 53 - (bits - whole))));
+  const shift = HASH_BITS - whole - 53;
+
+  return shift >= 0 ? mantissa << BigInt(shift) : mantissa >> BigInt(-shift);
+}
+
+/**
+ * Checks a hash against the target of a difficulty
+ * @param hash Raw 32-byte digest
+ * @param difficulty Difficulty in bits
+ * @returns True if the hash is below the target
+ */
+export function meetsTarget(hash: Uint8Array, difficulty: number): boolean {
+  if (hash.length * 8 !== HASH_BITS) {
+    return false;
+  }
+
+  let value = 0n;
+  for (let i = 0; i < hash.length; i++) {
+    value = (value << 8n) | BigInt(hash[i]);
+  }
+  return value < difficultyTarget(difficulty);
+}
+
+/**
+ * Formats a difficulty for the X-Pow-Difficulty and X-Challenge headers
+ * @param difficulty Difficulty in bits
+ * @returns Decimal string with at most three decimal places, e.g. '14.5'
+ */
+export function formatDifficulty(difficulty: number): string {
+  return String(Number(difficulty.toFixed(DIFFICULTY_DECIMALS)));
+}
+
+/**
+ * Parses a difficulty written by formatDifficulty
+ * @param value Header value
+ * @returns Difficulty, or null if the value is not a non-negative decimal number
+ */
+export function parseDifficulty(value: string | null | undefined): number | null {
+  if (!value || !/^\d+(\.\d+)?$/.test(value)) {
+    return null;
+  }
+  return Number(value);
+}
@@ -0,0 +1,155 @@
+import CryptoJS from 'crypto-js';
+import { meetsTarget } from './difficulty.js';
+
+/**
+ * SHA-256 implementation used for solving
+ */
+export type HashBackendName = 'node' | 'subtle' | 'crypto-js';
+
+/**
+ * Computes SHA-256 digests in batches, so async implementations pay their
+ * per-call overhead once per batch instead of once per attempt
+ */
+export interface HashBackend {
+  name: HashBackendName;
+
+  /**
+   * Hashes UTF-8 strings
+   * @param inputs Strings to hash
+   * @returns Raw digests, in input order
+   */
+  digest(inputs: string[]): Promise<Uint8Array[]>;
+}
+
+// Fastest first
+const PREFERRED_BACKENDS: HashBackendName[] = ['node', 'subtle', 'crypto-js'];
+
+let defaultBackend: Promise<HashBackend> | undefined;
+
+/**
+ * Gets the fastest backend available here: node:crypto in Node, WebCrypto in
+ * browsers and Workers, and crypto-js everywhere else
+ * @returns Hash backend
+ */
+export function getHashBackend(): Promise<HashBackend> {
+  if (!defaultBackend) {
+    defaultBackend = (async () => {
+      for (const name of PREFERRED_BACKENDS) {
+        const backend = await createHashBackend(name);
+        if (backend) {
+          return backend;
+        }
+      }
+      throw new Error('No SHA-256 implementation available');
+    })();
+  }
+  return defaultBackend;
+}
+
+/**
+ * Creates a specific backend
+ * @param name Backend to create
+ * @returns Hash backend, or null if it is not available here
+ */
+export async function createHashBackend(name: HashBackendName): Promise<HashBackend | null> {
+  switch (name) {
+    case 'node': {
+      if (typeof process === 'undefined' || !process.versions?.node) {
+        return null;
+      }
+      try {
+        const { createHash } = await import('node:crypto');
+        return {
+          name,
+          digest: async inputs => inputs.map(input => createHash('sha256').update(input).digest())
+        };
+      } catch {
+        return null;
+      }
+    }
+    case 'subtle': {
+      const subtle = globalThis.crypto?.subtle;
+      if (!subtle) {
+        return null;
+      }
+      const encoder = new TextEncoder();
+      return {
+        name,
+        digest: inputs => Promise.all(inputs.map(async input =>
+          new Uint8Array(await subtle.digest('SHA-256', encoder.encode(input)))
+        ))
+      };
+    }
+    case 'crypto-js':
+      return {
+        name,
+        digest: async inputs => inputs.map(input => wordArrayToBytes(CryptoJS.SHA256(input)))
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Checks if a digest starts with a number of zero bits, looking only at the bytes that matter.
+ * Fractional difficulties are checked against the numeric target instead.
+ * @param digest Raw digest
+ * @param difficulty Number of leading zero bits required
+ * @returns True if the digest has the required number of leading zero bits
+ */
+export function hasLeadingZeroBits(digest: Uint8Array, difficulty: number): boolean {
+  if (!Number.isInteger(difficulty)) {
+    return meetsTarget(digest, difficulty);
+  }
+
+  const fullBytes = Math.floor(difficulty / 8);
+  if (digest.length * 8 < difficulty) {
+    return false;
+  }
+
+  for (let i = 0; i < fullBytes; i++) {
+    if (digest[i] !== 0) {
+      return false;
+    }
+  }
+
+  const remainingBits = difficulty - fullBytes * 8;
+  return remainingBits === 0 || (digest[fullBytes] >> (8 - remainingBits)) === 0;
+}
+
+/**
+ * Hex-encodes bytes
+ * @param bytes Bytes to encode
+ * @returns Lower-case hex string
+ */
+export function toHex(bytes: Uint8Array): string {
+  let hex = '';
+  for (let i = 0; i < bytes.length; i++) {
+    hex += bytes[i].toString(16).padStart(2, '0');
+  }
+  return hex;
+}
+
+/**
+ * Converts bytes to a crypto-js WordArray, packing them into big-endian 32-bit words
+ * @param bytes Bytes to convert
+ * @returns WordArray holding the same bytes
+ */
+export function bytesToWordArray(bytes: Uint8Array): CryptoJS.lib.WordArray {
+  const words: number[] = [];
+  for (let i = 0; i < bytes.length; i++) {
+    words[i >>> 2] |= bytes[i] << (24 - (i % 4) * 8);
+  }
+  return CryptoJS.lib.WordArray.create(words, bytes.length);
+}
+
+/**
+ * Converts a crypto-js WordArray to bytes
+ */
+function wordArrayToBytes(wordArray: CryptoJS.lib.WordArray): Uint8Array {
+  const bytes = new Uint8Array(wordArray.sigBytes);
+  for (let i = 0; i < wordArray.sigBytes; i++) {
+    bytes[i] = (wordArray.words[i >>> 2] >>> (24 - (i % 4) * 8)) & 0xff;
+  }
+  return bytes;
+}
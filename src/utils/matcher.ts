@@ -0,0 +1,95 @@
+/**
+ * Endpoint pattern: a path pattern string, or a regular expression
+ */
+export type RoutePattern = string | RegExp;
+
+// Compiled path patterns, keyed by `${regex}:${pattern}`
+const compiled = new Map<string, RegExp>();
+
+/**
+ * Matches a path against an endpoint pattern.
+ *
+ * Path patterns support:
+ * - `:name` for one path segment, captured as a param (e.g. /users/:id/avatar). Only at the start
+ *   of a segment; colons elsewhere are literal, so /v1/items:batch matches only itself.
+ * - `*` for any characters within one segment (e.g. /files/*.json)
+ * - `**` for any number of segments, including none (e.g. /api/**\/export)
+ * - a trailing `*` for any remainder of the path, as in plain prefix patterns (e.g. /api/*)
+ *
+ * @param path Request path without query string
+ * @param pattern Path pattern or regular expression
+ * @param regex Treat a string pattern as a regular expression
+ * @returns Captured params, or null if the path does not match
+ */
+export function matchRoute(
+  path: string,
+  pattern: RoutePattern,
+  regex: boolean = false
+): Record<string, string> | null {
+  const match = compilePattern(pattern, regex).exec(path);
+  if (!match) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (const [name, value] of Object.entries(match.groups || {})) {
+    if (value !== undefined) {
+      params[name] = value;
+    }
+  }
+  return params;
+}
+
+/**
+ * Compiles an endpoint pattern into a regular expression
+ * @param pattern Path pattern or regular expression
+ * @param regex Treat a string pattern as a regular expression
+ * @returns Regular expression for whole paths (path patterns) or as written (regex patterns)
+ */
+export function compilePattern(pattern: RoutePattern, regex: boolean = false): RegExp {
+  // Global and sticky flags would make exec() stateful between calls
+  if (pattern instanceof RegExp) {
+    return new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ''));
+  }
+
+  const key = `${regex}:${pattern}`;
+  let result = compiled.get(key);
+  if (!result) {
+    result = regex ? new RegExp(pattern) : compilePathPattern(pattern);
+    compiled.set(key, result);
+  }
+  return result;
+}
+
+/**
+ * Compiles a path pattern into an anchored regular expression
+ * @param pattern Path pattern
+ * @returns Regular expression
+ */
+function compilePathPattern(pattern: string): RegExp {
+  const tokens = pattern.match(/\*\*|\*|:[A-Za-z_][A-Za-z0-9_]*|[^*:]+|:/g) || [];
+  let source = '';
+
+  tokens.forEach((token, index) => {
+    const isLast = index === tokens.length - 1;
+
+    if (token === '**') {
+      const next = tokens[index + 1];
+      if (source.endsWith('/') && (isLast || next.startsWith('/'))) {
+        // A whole-segment glob also matches no segments at all: /a/**/b matches /a/b
+        source = source.slice(0, -1) + '(?:/.*)?';
+      } else {
+        source += '.*';
+      }
+    } else if (token === '*') {
+      // A trailing * matches the rest of the path, so /api/* keeps matching nested paths
+      source += isLast ? '.*' : '[^/]*';
+    } else if (token.length > 1 && token.startsWith(':') && (index === 0 || tokens[index - 1].endsWith('/'))) {
+      source += `(?<${token.slice(1)}>[^/]+)`;
+    } else {
+      source += token.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  });
+
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,212 @@
+/**
+ * Algorithm used to count requests against a rate limit
+ */
+export type RateLimitAlgorithm = 'fixedWindow' | 'slidingWindow' | 'tokenBucket';
+
+/**
+ * Limit applied to one counter key
+ */
+export interface RateLimitPolicy {
+  limit: number;                  // Requests allowed per window
+  window: number;                 // Window length in seconds
+  algorithm: RateLimitAlgorithm;
+}
+
+/**
+ * Outcome of counting a request
+ */
+export interface RateLimitResult {
+  allowed: boolean;     // False if the request exceeds the limit
+  limit: number;        // Requests allowed per window
+  remaining: number;    // Requests left before the limit is reached
+  resetAt: number;      // When the counter is back to its full allowance (ms since epoch)
+  retryAfter?: number;  // Milliseconds to wait before retrying (rejected requests only)
+}
+
+/**
+ * Counter state stored between requests
+ */
+export type RateLimitState =
+  | { algorithm: 'fixedWindow'; windowStart: number; count: number }
+  | { algorithm: 'slidingWindow'; windowStart: number; count: number; previousCount: number }
+  | { algorithm: 'tokenBucket'; tokens: number; updatedAt: number };
+
+/**
+ * Counter state after a request, with the outcome for that request
+ */
+export interface RateLimitUpdate {
+  state: RateLimitState;  // State to store
+  result: RateLimitResult;
+  expiresAt: number;      // When the state no longer affects any request and can be dropped (ms since epoch)
+}
+
+/**
+ * Counts a request against a limit. Pure, so every storage backend shares the same logic.
+ * @param state Stored state, or undefined for a new key
+ * @param policy Limit to apply
+ * @param now Current time (ms since epoch)
+ * @returns New state and outcome
+ */
+export function applyRateLimit(
+  state: RateLimitState | undefined,
+  policy: RateLimitPolicy,
+  now: number = Date.now()
+): RateLimitUpdate {
+  // State written by another algorithm cannot be reused
+  const current = state?.algorithm === policy.algorithm ? state : undefined;
+
+  switch (policy.algorithm) {
+    case 'slidingWindow':
+      return applySlidingWindow(current as Extract<RateLimitState, { algorithm: 'slidingWindow' }> | undefined, policy, now);
+    case 'tokenBucket':
+      return applyTokenBucket(current as Extract<RateLimitState, { algorithm: 'tokenBucket' }> | undefined, policy, now);
+    default:
+      return applyFixedWindow(current as Extract<RateLimitState, { algorithm: 'fixedWindow' }> | undefined, policy, now);
+  }
+}
+
+/**
+ * Builds the standard rate limit response headers
+ * @param result Outcome of counting a request
+ * @param now Current time (ms since epoch)
+ * @returns RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset and, for rejections, Retry-After
+ */
+export function rateLimitHeaders(result: RateLimitResult, now: number = Date.now()): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(Math.max(0, Math.ceil((result.resetAt - now) / 1000)))
+  };
+
+  if (result.retryAfter !== undefined) {
+    headers['Retry-After'] = String(Math.max(1, Math.ceil(result.retryAfter / 1000)));
+  }
+
+  return headers;
+}
+
+/**
+ * Counts requests per window starting at the first request
+ */
+function applyFixedWindow(
+  state: Extract<RateLimitState, { algorithm: 'fixedWindow' }> | undefined,
+  policy: RateLimitPolicy,
+  now: number
+): RateLimitUpdate {
+  const windowMs = policy.window * 1000;
+
+  // Start a new window once the previous one has ended
+  let { windowStart, count } = state && now < state.windowStart + windowMs
+    ? state
+    : { windowStart: now, count: 0 };
+
+  const resetAt = windowStart + windowMs;
+  const allowed = count < policy.limit;
+  if (allowed) {
+    count++;
+  }
+
+  return {
+    state: { algorithm: 'fixedWindow', windowStart, count },
+    result: {
+      allowed,
+      limit: policy.limit,
+      remaining: policy.limit - count,
+      resetAt,
+      retryAfter: allowed ? undefined : resetAt - now
+    },
+    expiresAt: resetAt
+  };
+}
+
+/**
+ * Estimates the requests in the last window by weighting the previous
+ * aligned window's count by how much of it still overlaps
+ */
+function applySlidingWindow(
+  state: Extract<RateLimitState, { algorithm: 'slidingWindow' }> | undefined,
+  policy: RateLimitPolicy,
+  now: number
+): RateLimitUpdate {
+  const windowMs = policy.window * 1000;
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+
+  // Carry the count over when the stored window is the one right before this one
+  let count = 0;
+  let previousCount = 0;
+  if (state?.windowStart === windowStart) {
+    count = state.count;
+    previousCount = state.previousCount;
+  } else if (state?.windowStart === windowStart - windowMs) {
+    previousCount = state.count;
+  }
+
+  const overlap = (windowMs - (now - windowStart)) / windowMs;
+  const estimated = previousCount * overlap + count;
+  const allowed = estimated + 1 <= policy.limit;
+  if (allowed) {
+    count++;
+  }
+
+  // Requests drop out of the estimate as the previous window slides away
+  const windowEnd = windowStart + windowMs;
+  let retryAfter: number | undefined;
+  if (!allowed) {
+    const spare = policy.limit - 1 - count;
+    if (spare >= 0 && previousCount > 0) {
+      // Enough of the previous window slides away before this one ends
+      retryAfter = Math.ceil(windowStart + windowMs * (1 - spare / previousCount) - now);
+    } else if (count > 0) {
+      // This window is full, so its requests have to slide away as the previous window of the next one
+      retryAfter = Math.ceil(windowEnd + windowMs * (1 - (policy.limit - 1) / count) - now);
+    } else {
+      retryAfter = windowEnd - now;
+    }
+  }
+
+  return {
+    state: { algorithm: 'slidingWindow', windowStart, count, previousCount },
+    result: {
+      allowed,
+      limit: policy.limit,
+      remaining: Math.max(0, Math.floor(policy.limit - previousCount * overlap - count)),
+      resetAt: count > 0 ? windowEnd + windowMs : windowEnd,
+      retryAfter
+    },
+    expiresAt: windowEnd + windowMs
+  };
+}
+
+/**
+ * Refills a bucket of `limit` tokens evenly over the window; each request takes one token
+ */
+function applyTokenBucket(
+  state: Extract<RateLimitState, { algorithm: 'tokenBucket' }> | undefined,
+  policy: RateLimitPolicy,
+  now: number
+): RateLimitUpdate {
+  const msPerToken = (policy.window * 1000) / policy.limit;
+
+  let tokens = state
+    ? Math.min(policy.limit, state.tokens + (now - state.updatedAt) / msPerToken)
+    : policy.limit;
+
+  const allowed = tokens >= 1;
+  if (allowed) {
+    tokens -= 1;
+  }
+
+  const resetAt = now + Math.ceil((policy.limit - tokens) * msPerToken);
+
+  return {
+    state: { algorithm: 'tokenBucket', tokens, updatedAt: now },
+    result: {
+      allowed,
+      limit: policy.limit,
+      remaining: Math.floor(tokens),
+      resetAt,
+      retryAfter: allowed ? undefined : Math.ceil((1 - tokens) * msPerToken)
+    },
+    expiresAt: resetAt
+  };
+}
@@ -0,0 +1,208 @@
+import CryptoJS from 'crypto-js';
+import { bytesToWordArray } from './hash.js';
+
+// Fixed salt for scrypt stamps. Every stamp input is unique, so it needs no random salt.
+export const SCRYPT_SALT = 'pow-shield';
+
+/**
+ * scrypt cost parameters
+ */
+export interface ScryptParams {
+  N: number;   // CPU/memory cost, a power of two
+  r: number;   // Block size
+  p: number;   // Parallelization
+}
+
+/**
+ * Derives a key with scrypt (RFC 7914). Memory use is 128 * N * r bytes, so
+ * the cost of each hash cannot be cut much with GPUs or ASICs.
+ * Pure TypeScript, so it runs the same in browsers, Workers and Node.
+ * @param password Password bytes
+ * @param salt Salt bytes
+ * @param params Cost parameters
+ * @param keyLength Length of the derived key in bytes
+ * @returns Derived key
+ */
+export function scrypt(password: Uint8Array, salt: Uint8Array, params: ScryptParams, keyLength: number): Uint8Array {
+  const { N, r, p } = params;
+  const blockWords = 32 * r;
+
+  const blocks = bytesToWords(pbkdf2(password, salt, p * 128 * r));
+  const V = new Uint32Array(blockWords * N);
+  const X = new Uint32Array(blockWords);
+  const Y = new Uint32Array(blockWords);
+  const T = new Uint32Array(16);
+
+  for (let i = 0; i < p; i++) {
+    const block = blocks.subarray(i * blockWords, (i + 1) * blockWords);
+    roMix(block, N, r, V, X, Y, T);
+  }
+
+  return pbkdf2(password, wordsToBytes(blocks), keyLength);
+}
+
+// Largest N * r * p accepted: 8 times the default cost. The Worker computes one hash per
+// verified request, and its CPU time grows linearly with this product.
+const MAX_SCRYPT_COST = 65536;
+
+/**
+ * Checks scrypt cost parameters
+ * @param params Cost parameters
+ * @returns Error message, or null if the parameters are valid
+ */
+export function validateScryptParams(params: ScryptParams): string | null {
+  const { N, r, p } = params;
+  if (!Number.isInteger(N) || N < 2 || (N & (N - 1)) !== 0) {
+    return 'N must be a power of two greater than 1';
+  }
+  if (!Number.isInteger(r) || r < 1 || !Number.isInteger(p) || p < 1) {
+    return 'r and p must be positive integers';
+  }
+  if (N * r * p > MAX_SCRYPT_COST) {
+    return `N * r * p must be at most ${MAX_SCRYPT_COST}`;
+  }
+  return null;
+}
+
+/**
+ * Mixes one block with N memory-dependent rounds (scryptROMix)
+ */
+function roMix(
+  block: Uint32Array,
+  N: number,
+  r: number,
+  V: Uint32Array,
+  X: Uint32Array,
+  Y: Uint32Array,
+  T: Uint32Array
+): void {
+  const blockWords = 32 * r;
+  X.set(block);
+
+  for (let i = 0; i < N; i++) {
+    V.set(X, i * blockWords);
+    blockMix(X, Y, r, T);
+  }
+
+  for (let i = 0; i < N; i++) {
+    // Integerify: first word of the last 64-byte chunk, modulo N
+    const j = X[(2 * r - 1) * 16] & (N - 1);
+    for (let k = 0; k < blockWords; k++) {
+      X[k] ^= V[j * blockWords + k];
+    }
+    blockMix(X, Y, r, T);
+  }
+
+  block.set(X);
+}
+
+/**
+ * scryptBlockMix with Salsa20/8, in place
+ */
+function blockMix(B: Uint32Array, Y: Uint32Array, r: number, T: Uint32Array): void {
+  T.set(B.subarray((2 * r - 1) * 16, 2 * r * 16));
+
+  for (let i = 0; i < 2 * r; i++) {
+    for (let k = 0; k < 16; k++) {
+      T[k] ^= B[i * 16 + k];
+    }
+    salsa20_8(T);
+
+    // Even chunks go to the first half of the output, odd chunks to the second
+    Y.set(T, ((i >> 1) + (i & 1) * r) * 16);
+  }
+
+  B.set(Y);
+}
+
+/**
+ * Salsa20/8 core, in place. The state is kept in locals, which is much faster than array access.
+ */
+function salsa20_8(B: Uint32Array): void {
+  let x0 = B[0], x1 = B[1], x2 = B[2], x3 = B[3], x4 = B[4], x5 = B[5], x6 = B[6], x7 = B[7];
+  let x8 = B[8], x9 = B[9], x10 = B[10], x11 = B[11], x12 = B[12], x13 = B[13], x14 = B[14], x15 = B[15];
+  let t: number;
+
+  for (let i = 0; i < 8; i += 2) {
+    // Columns
+    t = x0 + x12 | 0; x4 ^= t << 7 | t >>> 25;
+    t = x4 + x0 | 0; x8 ^= t << 9 | t >>> 23;
+    t = x8 + x4 | 0; x12 ^= t << 13 | t >>> 19;
+    t = x12 + x8 | 0; x0 ^= t << 18 | t >>> 14;
+    t = x5 + x1 | 0; x9 ^= t << 7 | t >>> 25;
+    t = x9 + x5 | 0; x13 ^= t << 9 | t >>> 23;
+    t = x13 + x9 | 0; x1 ^= t << 13 | t >>> 19;
+    t = x1 + x13 | 0; x5 ^= t << 18 | t >>> 14;
+    t = x10 + x6 | 0; x14 ^= t << 7 | t >>> 25;
+    t = x14 + x10 | 0; x2 ^= t << 9 | t >>> 23;
+    t = x2 + x14 | 0; x6 ^= t << 13 | t >>> 19;
+    t = x6 + x2 | 0; x10 ^= t << 18 | t >>> 14;
+    t = x15 + x11 | 0; x3 ^= t << 7 | t >>> 25;
+    t = x3 + x15 | 0; x7 ^= t << 9 | t >>> 23;
+    t = x7 + x3 | 0; x11 ^= t << 13 | t >>> 19;
+    t = x11 + x7 | 0; x15 ^= t << 18 | t >>> 14;
+
+    // Rows
+    t = x0 + x3 | 0; x1 ^= t << 7 | t >>> 25;
+    t = x1 + x0 | 0; x2 ^= t << 9 | t >>> 23;
+    t = x2 + x1 | 0; x3 ^= t << 13 | t >>> 19;
+    t = x3 + x2 | 0; x0 ^= t << 18 | t >>> 14;
+    t = x5 + x4 | 0; x6 ^= t << 7 | t >>> 25;
+    t = x6 + x5 | 0; x7 ^= t << 9 | t >>> 23;
+    t = x7 + x6 | 0; x4 ^= t << 13 | t >>> 19;
+    t = x4 + x7 | 0; x5 ^= t << 18 | t >>> 14;
+    t = x10 + x9 | 0; x11 ^= t << 7 | t >>> 25;
+    t = x11 + x10 | 0; x8 ^= t << 9 | t >>> 23;
+    t = x8 + x11 | 0; x9 ^= t << 13 | t >>> 19;
+    t = x9 + x8 | 0; x10 ^= t << 18 | t >>> 14;
+    t = x15 + x14 | 0; x12 ^= t << 7 | t >>> 25;
+    t = x12 + x15 | 0; x13 ^= t << 9 | t >>> 23;
+    t = x13 + x12 | 0; x14 ^= t << 13 | t >>> 19;
+    t = x14 + x13 | 0; x15 ^= t << 18 | t >>> 14;
+  }
+
+  B[0] += x0; B[1] += x1; B[2] += x2; B[3] += x3; B[4] += x4; B[5] += x5; B[6] += x6; B[7] += x7;
+  B[8] += x8; B[9] += x9; B[10] += x10; B[11] += x11; B[12] += x12; B[13] += x13; B[14] += x14; B[15] += x15;
+}
+
+/**
+ * PBKDF2-HMAC-SHA256 with one iteration, as scrypt uses it
+ */
+function pbkdf2(password: Uint8Array, salt: Uint8Array, keyLength: number): Uint8Array {
+  const key = CryptoJS.PBKDF2(
+    bytesToWordArray(password),
+    bytesToWordArray(salt),
+    { keySize: Math.ceil(keyLength / 4), iterations: 1, hasher: CryptoJS.algo.SHA256 }
+  );
+
+  const bytes = new Uint8Array(keyLength);
+  for (let i = 0; i < keyLength; i++) {
+    bytes[i] = (key.words[i >>> 2] >>> (24 - (i % 4) * 8)) & 0xff;
+  }
+  return bytes;
+}
+
+/**
+ * Reads bytes as little-endian 32-bit words
+ */
+function bytesToWords(bytes: Uint8Array): Uint32Array {
+  const words = new Uint32Array(bytes.length / 4);
+  for (let i = 0; i < words.length; i++) {
+    words[i] = bytes[i * 4] | (bytes[i * 4 + 1] << 8) | (bytes[i * 4 + 2] << 16) | (bytes[i * 4 + 3] << 24);
+  }
+  return words;
+}
+
+/**
+ * Writes 32-bit words as little-endian bytes
+ */
+function wordsToBytes(words: Uint32Array): Uint8Array {
+  const bytes = new Uint8Array(words.length * 4);
+  for (let i = 0; i < words.length; i++) {
+    bytes[i * 4] = words[i] & 0xff;
+    bytes[i * 4 + 1] = (words[i] >>> 8) & 0xff;
+    bytes[i * 4 + 2] = (words[i] >>> 16) & 0xff;
+    bytes[i * 4 + 3] = (words[i] >>> 24) & 0xff;
+  }
+  return bytes;
+}
@@ -0,0 +1,48 @@
+import type { RequestBinding } from './stamp.js';
+
+/**
+ * Version of the canonical string signed for the origin
+ * - v1: timestamp, nonce and context only (legacy)
+ * - v2: also method, path, query and body digest
+ */
+export type HmacVersion = 'v1' | 'v2';
+
+/**
+ * Values covered by the origin signature
+ */
+export interface SigningParts {
+  endpoint: string;           // Request path
+  timestamp: string;          // X-Timestamp value
+  nonce: string;              // X-Nonce value
+  context: string;            // X-Context value
+  request?: RequestBinding;   // Method, canonical query and body digest (required for v2)
+}
+
+/**
+ * Builds the canonical string the Worker signs and the origin verifies.
+ * Both sides must use this so they agree on the format.
+ * @param version Canonical string version
+ * @param parts Signed values
+ * @returns String to sign
+ */
+export function buildSigningString(version: HmacVersion, parts: SigningParts): string {
+  if (version === 'v1') {
+    return `${parts.timestamp}:${parts.nonce}:${parts.context}`;
+  }
+
+  if (!parts.request) {
+    throw new Error('v2 signatures require method, query and body digest');
+  }
+
+  // The version prefix keeps strings of different versions from ever colliding
+  return [
+    'v2',
+    parts.request.method,
+    parts.endpoint,
+    parts.request.query,
+    parts.timestamp,
+    parts.nonce,
+    parts.context,
+    parts.request.bodyHash
+  ].join('\n');
+}
@@ -0,0 +1,78 @@
+import type { PowShieldConfig } from '../config.js';
+import { getScryptParams } from '../config.js';
+import { CryptoUtils } from './crypto.js';
+
+/**
+ * Request details a stamp is bound to in 'request' binding mode
+ */
+export interface RequestBinding {
+  method: string;     // Upper-case HTTP method
+  query: string;      // Canonical query string (see canonicalizeQuery)
+  bodyHash: string;   // Hex-encoded SHA-256 of the request body
+}
+
+/**
+ * Values that make up the input of a PoW stamp
+ */
+export interface StampParts {
+  endpoint: string;           // Request path
+  timestamp: string;          // Unix timestamp in seconds
+  nonce: string;              // Nonce chosen by the client
+  context: string;            // Context hash
+  request?: RequestBinding;   // Request details in 'request' binding mode
+  seed?: string;              // Seed of a server-issued challenge
+}
+
+/**
+ * Builds the string that is hashed into a PoW stamp.
+ * Client and verifiers must use this so they agree on the input format.
+ * @param parts Stamp parts
+ * @returns String to hash
+ */
+export function buildStampInput(parts: StampParts): string {
+  let input = `${parts.endpoint}:${parts.timestamp}:${parts.nonce}:${parts.context}`;
+
+  if (parts.request) {
+    input += `:${parts.request.method}:${parts.request.query}:${parts.request.bodyHash}`;
+  }
+
+  if (parts.seed) {
+    input += `:${parts.seed}`;
+  }
+
+  return input;
+}
+
+/**
+ * Hashes a stamp input with the configured algorithm
+ * @param input String built by buildStampInput
+ * @param config Configuration
+ * @returns Hex-encoded stamp
+ */
+export function computeStamp(input: string, config: PowShieldConfig): string {
+  return config.algorithm === 'scrypt'
+    ? CryptoUtils.scrypt(input, getScryptParams(config))
+    : CryptoUtils.sha256(input);
+}
+
+/**
+ * Canonicalizes a query string so client and verifier hash the same value
+ * regardless of parameter order or encoding differences
+ * @param search Query string, with or without the leading '?'
+ * @returns Parameters sorted by name then value, form-encoded
+ */
+export function canonicalizeQuery(search: string): string {
+  const entries = Array.from(new URLSearchParams(search).entries());
+
+  entries.sort(([nameA, valueA], [nameB, valueB]) => {
+    if (nameA !== nameB) {
+      return nameA < nameB ? -1 : 1;
+    }
+    if (valueA !== valueB) {
+      return valueA < valueB ? -1 : 1;
+    }
+    return 0;
+  });
+
+  return new URLSearchParams(entries).toString();
+}
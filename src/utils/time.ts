@@ -0,0 +1,20 @@
+/**
+ * Checks that a timestamp header is a number within the tolerance window
+ * @param timestamp Unix timestamp in seconds, as sent in X-Timestamp
+ * @param tolerance Maximum age in seconds
+ * @param maxSkew Seconds the timestamp may be ahead of the current time, for clients with fast clocks
+ * @param now Current time in milliseconds
+ * @returns True if the timestamp is fresh
+ */
+export function isTimestampFresh(
+  timestamp: string,
+  tolerance: number,
+  maxSkew: number,
+  now: number = Date.now()
+): boolean {
+  const timestampNum = parseInt(timestamp, 10);
+  const nowSeconds = Math.floor(now / 1000);
+
+  // Pre-dated timestamps would otherwise stay valid for longer than the tolerance
+  return !isNaN(timestampNum) && nowSeconds - timestampNum <= tolerance && timestampNum - nowSeconds <= maxSkew;
+}
@@ -0,0 +1,197 @@
+import type { PowShieldConfig } from './config.js';
+import { CryptoUtils } from './utils/crypto.js';
+import type { RequestBinding } from './utils/stamp.js';
+import { buildStampInput, computeStamp } from './utils/stamp.js';
+import { isTimestampFresh } from './utils/time.js';
+import { decodeChallenge, verifyChallenge } from './challenge.js';
+import type { PowAccessToken } from './token.js';
+import { verifyAccessToken } from './token.js';
+import type { NonceStore } from './nonce-store.js';
+import type { PowErrorBody } from './errors.js';
+import { PowErrorCode } from './errors.js';
+
+// Nonces are hex from PowClient; anything else that is short and header-safe is accepted.
+// Bounded, since nonces are stored for replay protection.
+const NONCE_PATTERN = /^[\w-]{1,128}$/;
+
+// scrypt stamps are 32 bytes, hex-encoded
+const SCRYPT_STAMP_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * Request data needed to verify a PoW stamp
+ */
+export interface PowVerificationInput {
+  endpoint: string;                                        // Request path
+  getHeader: (name: string) => string | null | undefined;  // Case-insensitive header lookup
+  request?: RequestBinding;                                // Method, query and body hash ('request' binding only)
+  difficulty?: number;                                     // Required difficulty (default: config.difficulty)
+  timestampTolerance?: number;                             // Seconds (default: config.timestampTolerance)
+}
+
+/**
+ * Reason a request failed verification
+ */
+export interface PowVerificationFailure {
+  status: number;        // HTTP status code to respond with
+  code: PowErrorCode;    // Stable error code
+  message: string;       // Error message
+}
+
+/**
+ * Verifies PoW stamps sent by PowClient.
+ * Shared by the Cloudflare Worker and the standalone server.
+ */
+export class PowVerifier {
+  private config: PowShieldConfig;
+  private nonceStore: NonceStore;
+
+  constructor(config: PowShieldConfig, nonceStore: NonceStore) {
+    this.config = config;
+    this.nonceStore = nonceStore;
+  }
+
+  /**
+   * Verifies the PoW headers of a request and records its nonce
+   * @param input Request data
+   * @returns Failure, or null if the request is valid
+   */
+  async verify(input: PowVerificationInput): Promise<PowVerificationFailure | null> {
+    // Extract PoW headers
+    const timestamp = input.getHeader('X-Timestamp');
+    const nonce = input.getHeader('X-Nonce');
+    const context = input.getHeader('X-Context');
+    const stamp = input.getHeader('X-Stamp');
+
+    // Check if all required headers are present
+    if (!timestamp || !nonce || !context || !stamp) {
+      return { status: 400, code: PowErrorCode.MissingHeaders, message: 'Missing PoW headers' };
+    }
+
+    if (!NONCE_PATTERN.test(nonce)) {
+      return { status: 403, code: PowErrorCode.InvalidStamp, message: 'Malformed PoW nonce' };
+    }
+
+    // Clients name the algorithm they solved with; stamps without the header predate the option
+    const algorithm = input.getHeader('X-Pow-Algorithm') || 'sha256';
+    if (algorithm !== (this.config.algorithm || 'sha256')) {
+      return { status: 400, code: PowErrorCode.UnsupportedAlgorithm, message: 'Unsupported PoW algorithm' };
+    }
+
+    // Validate timestamp
+    const tolerance = input.timestampTolerance ?? (this.config.timestampTolerance || 30);
+    const maxSkew = this.config.maxClockSkew ?? 10;
+    if (!isTimestampFresh(timestamp, tolerance, maxSkew)) {
+      return { status: 403, code: PowErrorCode.Expired, message: 'Timestamp expired or invalid' };
+    }
+
+    // Validate the server-issued challenge when challenges are required
+    let seed: string | undefined;
+    let difficulty = input.difficulty ?? (this.config.difficulty || 4);
+
+    if (this.config.challenge?.enabled) {
+      const challengeHeader = input.getHeader('X-Challenge');
+      if (!challengeHeader) {
+        return { status: 400, code: PowErrorCode.MissingHeaders, message: 'Missing PoW challenge' };
+      }
+
+      const challenge = decodeChallenge(challengeHeader);
+      if (!challenge || !verifyChallenge(challenge, this.config)) {
+        return { status: 403, code: PowErrorCode.ChallengeInvalid, message: 'Challenge expired or invalid' };
+      }
+
+      seed = challenge.seed;
+      difficulty = Math.max(difficulty, challenge.difficulty);
+    }
+
+    // Stamps bound to the request cannot be checked without its details
+    if (this.config.stampBinding === 'request' && !input.request) {
+      return { status: 400, code: PowErrorCode.MissingHeaders, message: 'Missing request details for stamp verification' };
+    }
+
+    // A scrypt hash costs milliseconds, so stamps that could not pass are turned away before computing one.
+    // The claimed stamp must have the right shape and already meet the difficulty; forging that costs nothing,
+    // but junk stamps do not, and the Worker rate limits requests before verifying them.
+    if (this.config.algorithm === 'scrypt') {
+      if (!SCRYPT_STAMP_PATTERN.test(stamp)) {
+        return { status: 403, code: PowErrorCode.InvalidStamp, message: 'Invalid PoW stamp' };
+      }
+      if (!CryptoUtils.hasLeadingZeros(stamp, difficulty)) {
+        return { status: 403, code: PowErrorCode.Difficulty, message: 'Insufficient PoW difficulty' };
+      }
+    }
+
+    // Validate PoW stamp
+    const dataToHash = buildStampInput({
+      endpoint: input.endpoint,
+      timestamp,
+      nonce,
+      context,
+      request: this.config.stampBinding === 'request' ? input.request : undefined,
+      seed
+    });
+    const validStamp = computeStamp(dataToHash, this.config);
+
+    if (!CryptoUtils.timingSafeEqual(stamp, validStamp)) {
+      return { status: 403, code: PowErrorCode.InvalidStamp, message: 'Invalid PoW stamp' };
+    }
+
+    // Check difficulty
+    if (!CryptoUtils.hasLeadingZeros(validStamp, difficulty)) {
+      return { status: 403, code: PowErrorCode.Difficulty, message: 'Insufficient PoW difficulty' };
+    }
+
+    // Record nonce to prevent replay. Done last so invalid stamps never reach shared storage.
+    // Kept for as long as a stamp dated up to maxSkew ahead stays fresh.
+    const fresh = await this.nonceStore.checkAndSet(`${timestamp}:${nonce}`, tolerance + maxSkew);
+    if (!fresh) {
+      return { status: 403, code: PowErrorCode.Replay, message: 'Nonce already used' };
+    }
+
+    return null;
+  }
+
+  /**
+   * Verifies a request that sends an access token in place of a PoW stamp, and records its nonce.
+   * The token's request budget is left to the caller.
+   * @param input Request data
+   * @param token Decoded X-Pow-Token header
+   * @param scope Pattern of the endpoint rule matching the request
+   * @returns Failure, or null if the request is valid
+   */
+  async verifyToken(input: PowVerificationInput, token: PowAccessToken, scope: string): Promise<PowVerificationFailure | null> {
+    // Timestamp and nonce are still needed, for freshness and for the origin signature
+    const timestamp = input.getHeader('X-Timestamp');
+    const nonce = input.getHeader('X-Nonce');
+    const context = input.getHeader('X-Context');
+
+    if (!timestamp || !nonce || !context) {
+      return { status: 400, code: PowErrorCode.MissingHeaders, message: 'Missing PoW headers' };
+    }
+
+    const tolerance = input.timestampTolerance ?? (this.config.timestampTolerance || 30);
+    const maxSkew = this.config.maxClockSkew ?? 10;
+    if (!isTimestampFresh(timestamp, tolerance, maxSkew)) {
+      return { status: 403, code: PowErrorCode.Expired, message: 'Timestamp expired or invalid' };
+    }
+
+    if (!verifyAccessToken(token, this.config, context, scope)) {
+      return { status: 403, code: PowErrorCode.TokenInvalid, message: 'Access token expired or invalid' };
+    }
+
+    const fresh = await this.nonceStore.checkAndSet(`${timestamp}:${nonce}`, tolerance + maxSkew);
+    if (!fresh) {
+      return { status: 403, code: PowErrorCode.Replay, message: 'Nonce already used' };
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Builds the JSON body of an error response
+ * @param failure Verification failure
+ * @returns Error code and message
+ */
+export function toErrorBody(failure: PowVerificationFailure): PowErrorBody {
+  return { code: failure.code, message: failure.message };
+}
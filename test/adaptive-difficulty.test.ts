@@ -0,0 +1,76 @@
+import { AdaptiveDifficulty } from '../src/adaptive-difficulty';
+import { validateAndMergeConfig } from '../src/config';
+
+describe('AdaptiveDifficulty', () => {
+  const NOW = 1700000000000;
+  const config = validateAndMergeConfig({
+    endpoints: ['/api/test'],
+    secret: 'test-secret',
+    difficulty: 4,
+    adaptiveDifficulty: {
+      enabled: true,
+      maxDifficulty: 8,
+      loadThreshold: 10,
+      failureThreshold: 2,
+      halfLife: 60
+    }
+  }, 'cloudflare');
+  let adaptive: AdaptiveDifficulty;
+  
+  const recordRequests = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      adaptive.recordRequest('/api/test', NOW);
+    }
+  };
+  
+  beforeEach(() => {
+    adaptive = new AdaptiveDifficulty(config);
+  });
+  
+  it('should require the configured difficulty when idle', () => {
+    expect(adaptive.getDifficulty('/api/test', ['ip:1.2.3.4'], 4, NOW)).toBe(4);
+  });
+  
+  it('should add a step at the load threshold and one per doubling beyond it', () => {
+    recordRequests(9);
+    expect(adaptive.getDifficulty('/api/test', [], 4, NOW)).toBe(4);
+    
+    recordRequests(1);
+    expect(adaptive.getDifficulty('/api/test', [], 4, NOW)).toBe(5);
+    
+    recordRequests(30);
+    expect(adaptive.getDifficulty('/api/test', [], 4, NOW)).toBe(7);
+    
+    // Load on one endpoint does not affect another
+    expect(adaptive.getDifficulty('/api/data', [], 4, NOW)).toBe(4);
+  });
+  
+  it('should raise difficulty for clients with recent failures', () => {
+    adaptive.recordFailure(['ip:1.2.3.4', 'context:abc'], NOW);
+    adaptive.recordFailure(['ip:1.2.3.4', 'context:def'], NOW);
+    
+    expect(adaptive.getDifficulty('/api/test', ['ip:1.2.3.4', 'context:xyz'], 4, NOW)).toBe(5);
+    expect(adaptive.getDifficulty('/api/test', ['ip:5.6.7.8', 'context:abc'], 4, NOW)).toBe(4);
+  });
+  
+  it('should decay back to the configured difficulty', () => {
+    recordRequests(20);
+    expect(adaptive.getDifficulty('/api/test', [], 4, NOW)).toBe(6);
+    
+    // One half-life later the load counts as 10
+    expect(adaptive.getDifficulty('/api/test', [], 4, NOW + 60000)).toBe(5);
+    expect(adaptive.getDifficulty('/api/test', [], 4, NOW + 120000)).toBe(4);
+  });
+  
+  it('should build on the difficulty of the endpoint rule', () => {
+    recordRequests(10);
+    
+    expect(adaptive.getDifficulty('/api/test', [], 6, NOW)).toBe(7);
+  });
+  
+  it('should not exceed the maximum difficulty', () => {
+    recordRequests(10000);
+    
+    expect(adaptive.getDifficulty('/api/test', [], 4, NOW)).toBe(8);
+  });
+});
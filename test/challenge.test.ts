@@ -0,0 +1,107 @@
+import { createChallenge, verifyChallenge, encodeChallenge, decodeChallenge } from '../src/challenge';
+import { validateAndMergeConfig } from '../src/config';
+import { CryptoUtils } from '../src/utils/crypto';
+
+// Uses the real CryptoUtils implementation
+
+describe('Challenge', () => {
+  const config = validateAndMergeConfig({
+    endpoints: ['/api/test'],
+    secret: 'test-secret',
+    difficulty: 6,
+    challenge: {
+      enabled: true,
+      ttl: 60
+    }
+  }, 'cloudflare');
+  
+  describe('createChallenge', () => {
+    it('should create a signed challenge with the configured difficulty and ttl', () => {
+      const now = 1700000000000;
+      const challenge = createChallenge(config, now);
+      
+      expect(challenge.seed).toMatch(/^[0-9a-f]{32}$/);
+      expect(challenge.difficulty).toBe(6);
+      expect(challenge.expires).toBe(1700000000 + 60);
+      expect(challenge.signature).toMatch(/^[0-9a-f]{64}$/);
+    });
+    
+    it('should use a fresh seed for every challenge', () => {
+      expect(createChallenge(config).seed).not.toBe(createChallenge(config).seed);
+    });
+  });
+  
+  describe('verifyChallenge', () => {
+    it('should accept a challenge it issued', () => {
+      expect(verifyChallenge(createChallenge(config), config)).toBe(true);
+    });
+    
+    it('should compare signatures in constant time', () => {
+      const challenge = createChallenge(config);
+      const spy = jest.spyOn(CryptoUtils, 'timingSafeEqual');
+      
+      expect(verifyChallenge(challenge, config)).toBe(true);
+      expect(spy).toHaveBeenCalledWith(challenge.signature, challenge.signature);
+      spy.mockRestore();
+    });
+    
+    it('should reject expired challenges', () => {
+      const now = Date.now();
+      const challenge = createChallenge(config, now);
+      
+      expect(verifyChallenge(challenge, config, now + 61 * 1000)).toBe(false);
+    });
+    
+    it('should reject tampered challenges', () => {
+      const challenge = createChallenge(config);
+      
+      expect(verifyChallenge({ ...challenge, difficulty: 1 }, config)).toBe(false);
+      expect(verifyChallenge({ ...challenge, seed: 'attacker-seed' }, config)).toBe(false);
+      expect(verifyChallenge({ ...challenge, expires: challenge.expires + 3600 }, config)).toBe(false);
+    });
+    
+    it('should reject challenges signed with another secret', () => {
+      const otherConfig = { ...config, secret: 'other-secret' };
+      
+      expect(verifyChallenge(createChallenge(otherConfig), config)).toBe(false);
+    });
+    
+    it('should accept challenges signed with any active rotating key', () => {
+      const now = 1700000000000;
+      const oldConfig = { ...config, secrets: [{ id: 'old', secret: 'old-secret' }] };
+      const rotatedConfig = {
+        ...config,
+        secrets: [{ id: 'new', secret: 'new-secret' }, { id: 'old', secret: 'old-secret', notAfter: 1700000030 }]
+      };
+      const challenge = createChallenge(oldConfig, now);
+      
+      expect(verifyChallenge(challenge, rotatedConfig, now)).toBe(true);
+      expect(verifyChallenge(challenge, rotatedConfig, now + 31 * 1000)).toBe(false);
+      expect(verifyChallenge(createChallenge(rotatedConfig, now), oldConfig, now)).toBe(false);
+    });
+  });
+  
+  describe('encodeChallenge / decodeChallenge', () => {
+    it('should round-trip a challenge', () => {
+      const challenge = createChallenge(config);
+      
+      expect(decodeChallenge(encodeChallenge(challenge))).toEqual(challenge);
+    });
+    
+    it('should round-trip a fractional difficulty', () => {
+      const challenge = createChallenge({ ...config, difficulty: 14.5 });
+      const encoded = encodeChallenge(challenge);
+      
+      expect(encoded.split('.')[1] + '.' + encoded.split('.')[2]).toBe('14.5');
+      expect(decodeChallenge(encoded)).toEqual(challenge);
+      expect(verifyChallenge(decodeChallenge(encoded)!, config)).toBe(true);
+    });
+    
+    it('should return null for malformed values', () => {
+      expect(decodeChallenge('')).toBeNull();
+      expect(decodeChallenge('a.b.c')).toBeNull();
+      expect(decodeChallenge('seed.x.123.sig')).toBeNull();
+      expect(decodeChallenge('seed.4.123.sig.extra')).toBeNull();
+    });
+  });
+});
@@ -1,17 +1,26 @@
 import { PowClient } from '../src/client';
 import { CryptoUtils } from '../src/utils/crypto';
+import { solveInWorkers } from '../src/solver';
+import { PowAbortError, PowError, PowErrorCode, PowRateLimitError } from '../src/errors';
 
 // Mock the CryptoUtils for controlled testing
 jest.mock('../src/utils/crypto', () => ({
   CryptoUtils: {
     sha256: jest.fn().mockImplementation(data => `mocked-hash-${data}`),
+    sha256Batch: jest.fn().mockImplementation(async (inputs: string[]) => inputs.map(data => `mocked-hash-${data}`)),
+    sha256Bytes: jest.fn().mockReturnValue('mocked-body-hash'),
     hmac: jest.fn().mockImplementation((data, secret) => `mocked-hmac-${data}-${secret}`),
     generateNonce: jest.fn().mockReturnValue('mocked-nonce'),
     hasLeadingZeros: jest.fn().mockReturnValue(true),
+    timingSafeEqual: jest.fn().mockImplementation((actual, expected) => actual === expected),
     generateContext: jest.fn().mockReturnValue('mocked-context')
   }
 }));
 
+jest.mock('../src/solver', () => ({
+  solveInWorkers: jest.fn().mockResolvedValue(null)
+}));
+
 describe('PowClient', () => {
   let powClient: PowClient;
   
@@ -39,9 +48,113 @@ describe('PowClient', () => {
       // Verify CryptoUtils was called correctly
       expect(CryptoUtils.generateNonce).toHaveBeenCalled();
       expect(CryptoUtils.generateContext).toHaveBeenCalled();
-      expect(CryptoUtils.sha256).toHaveBeenCalled();
+      expect(CryptoUtils.sha256Batch).toHaveBeenCalled();
       expect(CryptoUtils.hasLeadingZeros).toHaveBeenCalled();
     });
+    
+    it('should solve on worker threads at high difficulty', async () => {
+      (solveInWorkers as jest.Mock).mockResolvedValueOnce({ nonce: 'worker-nonce', stamp: 'worker-stamp', attempts: 1 });
+      
+      const headers = await powClient.getHeaders('/api/test', { difficulty: 16 });
+      
+      expect(solveInWorkers).toHaveBeenCalledWith({
+        prefix: `/api/test:${headers['X-Timestamp']}:`,
+        suffix: ':mocked-context',
+        difficulty: 16
+      }, expect.objectContaining({ threads: undefined }));
+      expect(headers['X-Nonce']).toBe('worker-nonce');
+      expect(headers['X-Stamp']).toBe('worker-stamp');
+      expect(CryptoUtils.generateNonce).not.toHaveBeenCalled();
+    });
+    
+    it('should fall back to the inline loop when worker threads are unavailable', async () => {
+      const headers = await powClient.getHeaders('/api/test', { difficulty: 16 });
+      
+      expect(solveInWorkers).toHaveBeenCalled();
+      expect(headers['X-Nonce']).toBe('mocked-nonce0');
+    });
+    
+    it('should solve inline below the worker threshold or with workers disabled', async () => {
+      await powClient.getHeaders('/api/test');
+      
+      const inlineClient = new PowClient({
+        endpoints: ['/api/test'],
+        difficulty: 16,
+        client: { workers: 0 }
+      });
+      await inlineClient.getHeaders('/api/test');
+      
+      expect(solveInWorkers).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('solve', () => {
+    afterEach(() => {
+      (CryptoUtils.hasLeadingZeros as jest.Mock).mockReset().mockReturnValue(true);
+    });
+    
+    it('should count up from one random prefix without an attempt cap', async () => {
+      // Fail more attempts than the old limit of maxRetries * 100
+      const hasLeadingZeros = CryptoUtils.hasLeadingZeros as jest.Mock;
+      hasLeadingZeros.mockImplementation(() => hasLeadingZeros.mock.calls.length > 700);
+      
+      const result = await powClient.solve('/api/test');
+      
+      expect(CryptoUtils.generateNonce).toHaveBeenCalledTimes(1);
+      expect(result.headers['X-Nonce']).toBe(`mocked-nonce${(700).toString(16)}`);
+      expect(result.attempts).toBe(701);
+      expect(result.expectedAttempts).toBe(16);
+      expect(result.difficulty).toBe(4);
+    });
+    
+    it('should give up when the time budget runs out', async () => {
+      (CryptoUtils.hasLeadingZeros as jest.Mock).mockReturnValue(false);
+      const timedClient = new PowClient({
+        endpoints: ['/api/test'],
+        difficulty: 4,
+        client: { solveTimeout: 20 }
+      });
+      
+      await expect(timedClient.solve('/api/test'))
+        .rejects.toThrow(/^PoW solving timed out after 20 ms: \d+ attempts made, about 16 expected$/);
+    });
+    
+    it('should stop when the signal aborts', async () => {
+      (CryptoUtils.hasLeadingZeros as jest.Mock).mockReturnValue(false);
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 10);
+      
+      await expect(powClient.getHeaders('/api/test', { signal: controller.signal }))
+        .rejects.toThrow(/^PoW solving aborted: \d+ attempts made/);
+    });
+    
+    it('should reject with a typed abort error', async () => {
+      (CryptoUtils.hasLeadingZeros as jest.Mock).mockReturnValue(false);
+      
+      const error = await powClient.solve('/api/test', { timeoutMs: 10 }).catch(e => e);
+      
+      expect(error).toBeInstanceOf(PowAbortError);
+      expect(error.name).toBe('AbortError');
+      expect(error.reason).toBe('timeout');
+      expect(error.attempts).toBeGreaterThan(0);
+      expect(error.expectedAttempts).toBe(16);
+    });
+    
+    it('should report progress while solving', async () => {
+      const hasLeadingZeros = CryptoUtils.hasLeadingZeros as jest.Mock;
+      const startedAt = Date.now();
+      hasLeadingZeros.mockImplementation(() => Date.now() - startedAt > 250);
+      const onProgress = jest.fn();
+      
+      await powClient.solve('/api/test', { onProgress });
+      
+      expect(onProgress).toHaveBeenCalled();
+      const progress = onProgress.mock.calls[0][0];
+      expect(progress.attempts).toBeGreaterThan(0);
+      expect(progress.elapsed).toBeGreaterThanOrEqual(100);
+      expect(progress.hashrate).toBeCloseTo(progress.attempts / progress.elapsed * 1000);
+      expect(progress.estimatedRemaining).toBe(Math.max(0, 16 - progress.attempts) / progress.hashrate * 1000);
+    });
   });
   
   describe('fetch', () => {
@@ -53,6 +166,8 @@ describe('PowClient', () => {
       originalFetch = global.fetch;
       
       mockFetchResponse = { 
+        status: 200,
+        headers: new Headers(),
         json: jest.fn().mockResolvedValue({ success: true }) 
       };
       
@@ -74,10 +189,31 @@ describe('PowClient', () => {
       const [url, options] = fetchCall;
       
       expect(url).toBe('https://example.com/api/test');
-      expect(options.headers).toHaveProperty('X-Timestamp');
-      expect(options.headers).toHaveProperty('X-Nonce');
-      expect(options.headers).toHaveProperty('X-Context');
-      expect(options.headers).toHaveProperty('X-Stamp');
+      expect(options.headers.has('X-Timestamp')).toBe(true);
+      expect(options.headers.has('X-Nonce')).toBe(true);
+      expect(options.headers.has('X-Context')).toBe(true);
+      expect(options.headers.has('X-Stamp')).toBe(true);
+    });
+    
+    it('should stop solving when the request signal aborts', async () => {
+      (CryptoUtils.hasLeadingZeros as jest.Mock).mockReturnValue(false);
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 10);
+      
+      const request = powClient.fetch('https://example.com/api/test', { signal: controller.signal });
+      
+      await expect(request).rejects.toBeInstanceOf(PowAbortError);
+      expect(global.fetch).not.toHaveBeenCalled();
+      (CryptoUtils.hasLeadingZeros as jest.Mock).mockReturnValue(true);
+    });
+    
+    it('should not pass solving options on to fetch', async () => {
+      const onProgress = jest.fn();
+      await powClient.fetch('https://example.com/api/test', { timeoutMs: 1000, onProgress });
+      
+      const [, options] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(options).not.toHaveProperty('timeoutMs');
+      expect(options).not.toHaveProperty('onProgress');
     });
     
     it('should not add PoW headers to non-protected endpoints', async () => {
@@ -98,6 +234,215 @@ describe('PowClient', () => {
       expect(options && options.headers ? options.headers : {}).not.toHaveProperty('X-Stamp');
     });
     
+    it('should fetch and solve a challenge in challenge mode', async () => {
+      const challengeClient = new PowClient({
+        endpoints: ['/api/test'],
+        challenge: { enabled: true }
+      });
+      const challenge = { seed: 'challenge-seed', difficulty: 6, expires: 1700000060, signature: 'sig' };
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        headers: new Headers(),
+        json: jest.fn().mockResolvedValue(challenge)
+      });
+      
+      await challengeClient.fetch('https://example.com/api/test');
+      
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      
+      // First call fetches the challenge from the same origin
+      const [challengeUrl] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(challengeUrl).toBe('https://example.com/pow-challenge');
+      
+      // Second call carries the solved challenge
+      const [, options] = (global.fetch as jest.Mock).mock.calls[1];
+      expect(options.headers.get('X-Challenge')).toBe('challenge-seed.6.1700000060.sig');
+      expect(CryptoUtils.sha256Batch).toHaveBeenCalledWith(expect.arrayContaining([expect.stringMatching(/:challenge-seed$/)]));
+      expect(CryptoUtils.hasLeadingZeros).toHaveBeenCalledWith(expect.any(String), 6);
+    });
+    
+    it('should fail when the challenge cannot be fetched', async () => {
+      const challengeClient = new PowClient({
+        endpoints: ['/api/test'],
+        challenge: { enabled: true }
+      });
+      (global.fetch as jest.Mock).mockResolvedValueOnce({ ok: false, status: 503, headers: new Headers() });
+      
+      await expect(challengeClient.fetch('https://example.com/api/test'))
+        .rejects.toThrow('Failed to fetch PoW challenge: 503');
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+    
+    it('should bind the stamp to method, query and body in request binding mode', async () => {
+      const bindingClient = new PowClient({
+        endpoints: ['/api/test'],
+        stampBinding: 'request'
+      });
+      
+      await bindingClient.fetch('https://example.com/api/test?b=2&a=1', {
+        method: 'post',
+        body: 'hello'
+      });
+      
+      const [, options] = (global.fetch as jest.Mock).mock.calls[0];
+      
+      // The serialized bytes are sent, with the content type fetch would have used
+      expect(options.body).toEqual(new TextEncoder().encode('hello'));
+      expect(options.headers.get('Content-Type')).toBe('text/plain;charset=UTF-8');
+      expect(CryptoUtils.sha256Bytes).toHaveBeenCalledWith(new TextEncoder().encode('hello'));
+      expect(CryptoUtils.sha256Batch).toHaveBeenCalledWith(expect.arrayContaining([expect.stringContaining(':POST:a=1&b=2:mocked-body-hash')]));
+    });
+    
+    it('should re-solve at the advertised difficulty when the stamp is too easy', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        status: 403,
+        headers: new Headers({ 'X-Pow-Difficulty': '7' })
+      });
+      
+      const response = await powClient.fetch('https://example.com/api/test');
+      
+      expect(response).toBe(mockFetchResponse);
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      expect(CryptoUtils.hasLeadingZeros).toHaveBeenNthCalledWith(1, expect.any(String), 4);
+      expect(CryptoUtils.hasLeadingZeros).toHaveBeenLastCalledWith(expect.any(String), 7);
+      
+      // Later requests start at the advertised difficulty
+      await powClient.fetch('https://example.com/api/test');
+      expect(CryptoUtils.hasLeadingZeros).toHaveBeenLastCalledWith(expect.any(String), 7);
+    });
+    
+    it('should not re-solve when the advertised difficulty was already met', async () => {
+      const rejection = { status: 403, headers: new Headers({ 'X-Pow-Difficulty': '4' }) };
+      (global.fetch as jest.Mock).mockResolvedValueOnce(rejection);
+      
+      const response = await powClient.fetch('https://example.com/api/test');
+      
+      expect(response).toBe(rejection);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+    
+    it('should return error responses unless throwOnError is set', async () => {
+      const errorResponse = () => new Response(JSON.stringify({ code: 'RATE_LIMITED', message: 'Rate limit exceeded' }), {
+        status: 429,
+        headers: { 'Content-Type': 'application/json', 'Retry-After': '30' }
+      });
+      (global.fetch as jest.Mock).mockResolvedValueOnce(errorResponse());
+      
+      expect((await powClient.fetch('https://example.com/api/test', { retry: false })).status).toBe(429);
+      
+      const throwingClient = new PowClient({
+        endpoints: ['/api/test'],
+        client: { throwOnError: true }
+      });
+      (global.fetch as jest.Mock).mockResolvedValueOnce(errorResponse());
+      
+      const error = await throwingClient.fetch('https://example.com/api/test', { retry: false }).catch(e => e);
+      expect(error).toBeInstanceOf(PowRateLimitError);
+      expect(error).toBeInstanceOf(PowError);
+      expect(error.code).toBe(PowErrorCode.RateLimited);
+      expect(error.status).toBe(429);
+      expect(error.retryAfter).toBe(30);
+    });
+    
+    describe('retries', () => {
+      const rejection = (code: string, status: number, headers: Record<string, string> = {}) => new Response(
+        JSON.stringify({ code, message: 'rejected' }),
+        { status, headers: { 'Content-Type': 'application/json', ...headers } }
+      );
+      
+      it('should retry replayed nonces with a fresh stamp', async () => {
+        (global.fetch as jest.Mock).mockResolvedValueOnce(rejection('POW_REPLAY', 403));
+        
+        const response = await powClient.fetch('https://example.com/api/test');
+        
+        expect(response).toBe(mockFetchResponse);
+        expect(global.fetch).toHaveBeenCalledTimes(2);
+      });
+      
+      it('should correct the clock from the Date header when the timestamp expired', async () => {
+        const serverTime = Date.now() + 3600 * 1000;
+        (global.fetch as jest.Mock).mockResolvedValueOnce(rejection('POW_EXPIRED', 403, { Date: new Date(serverTime).toUTCString() }));
+        
+        await powClient.fetch('https://example.com/api/test');
+        
+        const [, options] = (global.fetch as jest.Mock).mock.calls[1];
+        expect(Math.abs(Number(options.headers.get('X-Timestamp')) - serverTime / 1000)).toBeLessThan(5);
+      });
+      
+      it('should apply the clock offset from X-Pow-Server-Time to later stamps', async () => {
+        const serverTime = Date.now() - 120 * 1000;
+        (global.fetch as jest.Mock).mockResolvedValueOnce(rejection('POW_EXPIRED', 403, { 'X-Pow-Server-Time': String(serverTime) }));
+        
+        await powClient.fetch('https://example.com/api/test');
+        
+        expect(Math.abs(powClient.getClockOffset() + 120 * 1000)).toBeLessThan(5000);
+        const headers = await powClient.getHeaders('/api/test');
+        expect(Math.abs(Number(headers['X-Timestamp']) - (Date.now() - 120 * 1000) / 1000)).toBeLessThan(5);
+      });
+      
+      it('should wait for Retry-After on 429', async () => {
+        (global.fetch as jest.Mock).mockResolvedValueOnce(rejection('RATE_LIMITED', 429, { 'Retry-After': '0' }));
+        
+        expect(await powClient.fetch('https://example.com/api/test')).toBe(mockFetchResponse);
+        expect(global.fetch).toHaveBeenCalledTimes(2);
+      });
+      
+      it('should not wait longer than maxRetryAfter', async () => {
+        (global.fetch as jest.Mock).mockResolvedValueOnce(rejection('RATE_LIMITED', 429, { 'Retry-After': '3600' }));
+        
+        expect((await powClient.fetch('https://example.com/api/test')).status).toBe(429);
+        expect(global.fetch).toHaveBeenCalledTimes(1);
+      });
+      
+      it('should not retry unrecoverable rejections', async () => {
+        (global.fetch as jest.Mock).mockResolvedValueOnce(rejection('POW_INVALID', 403));
+        
+        expect((await powClient.fetch('https://example.com/api/test')).status).toBe(403);
+        expect(global.fetch).toHaveBeenCalledTimes(1);
+      });
+      
+      it('should only retry non-idempotent requests when opted in', async () => {
+        (global.fetch as jest.Mock).mockResolvedValueOnce(rejection('POW_REPLAY', 403));
+        expect((await powClient.fetch('https://example.com/api/test', { method: 'POST', body: 'x' })).status).toBe(403);
+        expect(global.fetch).toHaveBeenCalledTimes(1);
+        
+        (global.fetch as jest.Mock).mockResolvedValueOnce(rejection('POW_REPLAY', 403));
+        expect(await powClient.fetch('https://example.com/api/test', { method: 'POST', body: 'x', retry: true })).toBe(mockFetchResponse);
+        expect(global.fetch).toHaveBeenCalledTimes(3);
+        
+        const retryingClient = new PowClient({ endpoints: ['/api/test'], client: { retryNonIdempotent: true } });
+        (global.fetch as jest.Mock).mockResolvedValueOnce(rejection('POW_REPLAY', 403));
+        expect(await retryingClient.fetch('https://example.com/api/test', { method: 'POST', body: 'x' })).toBe(mockFetchResponse);
+      });
+      
+      it('should not retry streamed bodies, which the first attempt consumed', async () => {
+        const stream = () => new ReadableStream({
+          start(controller) {
+            controller.enqueue(new TextEncoder().encode('x'));
+            controller.close();
+          }
+        });
+        
+        (global.fetch as jest.Mock).mockResolvedValueOnce(rejection('POW_REPLAY', 403));
+        expect((await powClient.fetch('https://example.com/api/test', { method: 'PUT', body: stream(), retry: true })).status).toBe(403);
+        expect(global.fetch).toHaveBeenCalledTimes(1);
+        
+        // Buffered for request binding, so it can be sent again
+        const bindingClient = new PowClient({ endpoints: ['/api/test'], stampBinding: 'request' });
+        (global.fetch as jest.Mock).mockResolvedValueOnce(rejection('POW_REPLAY', 403));
+        expect(await bindingClient.fetch('https://example.com/api/test', { method: 'PUT', body: stream() })).toBe(mockFetchResponse);
+        expect(global.fetch).toHaveBeenCalledTimes(3);
+      });
+      
+      it('should stop after maxRetries', async () => {
+        (global.fetch as jest.Mock).mockImplementation(async () => rejection('POW_REPLAY', 403));
+        const limitedClient = new PowClient({ endpoints: ['/api/test'], client: { maxRetries: 2 } });
+        
+        expect((await limitedClient.fetch('https://example.com/api/test')).status).toBe(403);
+        expect(global.fetch).toHaveBeenCalledTimes(3);
+      });
+    });
+    
     it('should merge provided headers with PoW headers', async () => {
       const customHeaders = {
         'Content-Type': 'application/json',
@@ -114,12 +459,34 @@ describe('PowClient', () => {
       const fetchCall = (global.fetch as jest.Mock).mock.calls[0];
       const [, options] = fetchCall;
       
-      expect(options.headers).toHaveProperty('Content-Type', 'application/json');
-      expect(options.headers).toHaveProperty('Authorization', 'Bearer token');
-      expect(options.headers).toHaveProperty('X-Timestamp');
-      expect(options.headers).toHaveProperty('X-Nonce');
-      expect(options.headers).toHaveProperty('X-Context');
-      expect(options.headers).toHaveProperty('X-Stamp');
+      expect(options.headers.get('Content-Type')).toBe('application/json');
+      expect(options.headers.get('Authorization')).toBe('Bearer token');
+      expect(options.headers.has('X-Timestamp')).toBe(true);
+      expect(options.headers.has('X-Nonce')).toBe(true);
+      expect(options.headers.has('X-Context')).toBe(true);
+      expect(options.headers.has('X-Stamp')).toBe(true);
+    });
+    
+    it('should keep headers passed as a Headers object or as pairs', async () => {
+      const bindingClient = new PowClient({ endpoints: ['/api/*'], stampBinding: 'request' });
+      
+      await powClient.fetch('https://example.com/api/test', { headers: new Headers({ Authorization: 'Bearer token' }) });
+      await powClient.fetch('https://example.com/api/test', { headers: [['Authorization', 'Bearer pairs']] });
+      await bindingClient.fetch('https://example.com/api/test', {
+        method: 'POST',
+        body: 'hello',
+        headers: new Headers({ Authorization: 'Bearer bound' })
+      });
+      await bindingClient.fetch('https://example.com/api/test', {
+        method: 'POST',
+        body: 'hello',
+        headers: [['Authorization', 'Bearer bound-pairs']]
+      });
+      
+      const sent = (global.fetch as jest.Mock).mock.calls.map(([, options]) => options.headers as Headers);
+      expect(sent.map(headers => headers.get('Authorization'))).toEqual(['Bearer token', 'Bearer pairs', 'Bearer bound', 'Bearer bound-pairs']);
+      expect(sent.every(headers => headers.has('X-Stamp'))).toBe(true);
+      expect(sent.some(headers => headers.has('0'))).toBe(false);
     });
   });
 });
\ No newline at end of file
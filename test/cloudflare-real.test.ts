@@ -1,5 +1,6 @@
 import { PowCloudflare } from '../src/cloudflare';
 import { CryptoUtils } from '../src/utils/crypto';
+import { PowShieldCoordinator } from '../src/coordinator';
 
 // Only mock the CryptoUtils functions that need to be controlled in tests
 jest.mock('../src/utils/crypto', () => {
@@ -12,8 +13,10 @@ jest.mock('../src/utils/crypto', () => {
       sha256: jest.fn().mockImplementation(data => `mocked-hash-${data}`),
       hmac: jest.fn().mockReturnValue('mocked-hmac'),
       hasLeadingZeros: jest.fn().mockReturnValue(true),
+      timingSafeEqual: jest.fn().mockImplementation(actualCrypto.CryptoUtils.timingSafeEqual),
       
       // Use real implementations for the rest
+      sha256Bytes: actualCrypto.CryptoUtils.sha256Bytes,
       generateNonce: actualCrypto.CryptoUtils.generateNonce,
       generateContext: actualCrypto.CryptoUtils.generateContext
     }
@@ -63,8 +66,9 @@ describe('PowCloudflare', () => {
       
       const result = await powCloudflare.handleRequest(nonProtectedRequest);
       
-      // Should return null to pass through to origin
-      expect(result).toBeNull();
+      // Should forward the original request to origin
+      expect(result.action).toBe('forward');
+      expect(result.action === 'forward' && result.request).toBe(nonProtectedRequest);
     });
     
     it('should reject requests without required headers', async () => {
@@ -73,8 +77,8 @@ describe('PowCloudflare', () => {
       const result = await powCloudflare.handleRequest(incompleteRequest);
       
       // Should return a 400 response
-      expect(result).toBeInstanceOf(Response);
-      expect(result?.status).toBe(400);
+      expect(result.action).toBe('reject');
+      expect(result.action === 'reject' && result.response.status).toBe(400);
     });
     
     it('should reject requests with expired timestamps', async () => {
@@ -91,8 +95,35 @@ describe('PowCloudflare', () => {
       const result = await powCloudflare.handleRequest(expiredRequest);
       
       // Should return a 403 response
-      expect(result).toBeInstanceOf(Response);
-      expect(result?.status).toBe(403);
+      expect(result.action).toBe('reject');
+      expect(result.action === 'reject' && result.response.status).toBe(403);
+    });
+    
+    it('should reject timestamps ahead of the clock by more than the skew allowance', async () => {
+      (CryptoUtils.sha256 as jest.Mock).mockReturnValue('test-stamp');
+      const datedRequest = (secondsAhead: number, nonce: string) => new Request('https://example.com/api/test', {
+        headers: {
+          'X-Timestamp': (Math.floor(Date.now() / 1000) + secondsAhead).toString(),
+          'X-Nonce': nonce,
+          'X-Context': 'test-context',
+          'X-Stamp': 'test-stamp'
+        }
+      });
+      
+      expect((await powCloudflare.handleRequest(datedRequest(5, 'slightly-ahead'))).action).toBe('forward');
+      
+      const result = await powCloudflare.handleRequest(datedRequest(60, 'pre-dated'));
+      expect(result.action).toBe('reject');
+      expect(result.action === 'reject' && await result.response.json()).toEqual(expect.objectContaining({ code: 'POW_EXPIRED' }));
+    });
+    
+    it('should send its clock with rejections', async () => {
+      const before = Date.now();
+      const result = await powCloudflare.handleRequest(new Request('https://example.com/api/test'));
+      
+      const serverTime = Number(result.action === 'reject' && result.response.headers.get('X-Pow-Server-Time'));
+      expect(serverTime).toBeGreaterThanOrEqual(before);
+      expect(serverTime).toBeLessThanOrEqual(Date.now());
     });
     
     it('should reject requests with used nonces', async () => {
@@ -104,8 +135,8 @@ describe('PowCloudflare', () => {
       const result = await powCloudflare.handleRequest(mockRequest);
       
       // Should return a 403 response for nonce reuse
-      expect(result).toBeInstanceOf(Response);
-      expect(result?.status).toBe(403);
+      expect(result.action).toBe('reject');
+      expect(result.action === 'reject' && result.response.status).toBe(403);
     });
     
     it('should reject requests that exceed rate limits', async () => {
@@ -135,7 +166,7 @@ describe('PowCloudflare', () => {
           }
         });
         const result = await powCloudflare.handleRequest(uniqueRequest);
-        expect(result).toBeNull(); // Should pass through
+        expect(result.action).toBe('forward'); // Should pass through
       }
       
       // One more request should hit the rate limit
@@ -150,8 +181,8 @@ describe('PowCloudflare', () => {
       }));
       
       // Should return a 429 response
-      expect(limitResult).toBeInstanceOf(Response);
-      expect(limitResult?.status).toBe(429);
+      expect(limitResult.action).toBe('reject');
+      expect(limitResult.action === 'reject' && limitResult.response.status).toBe(429);
     });
     
     it('should add HMAC signature to valid requests', async () => {
@@ -160,11 +191,802 @@ describe('PowCloudflare', () => {
       
       const result = await powCloudflare.handleRequest(mockRequest);
       
-      // Should return null to pass to origin with modified headers
-      expect(result).toBeNull();
+      // Should forward a request carrying the HMAC header
+      expect(result.action).toBe('forward');
+      expect(result.action === 'forward' && result.request.headers.get('X-HMAC')).toBeTruthy();
       
       // Verify HMAC was generated
       expect(CryptoUtils.hmac).toHaveBeenCalled();
     });
+    
+    it('should keep method and body on the forwarded request', async () => {
+      (CryptoUtils.sha256 as jest.Mock).mockReturnValue('test-stamp');
+      
+      const postRequest = new Request('https://example.com/api/test?page=2', {
+        method: 'POST',
+        body: JSON.stringify({ hello: 'world' }),
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Timestamp': Math.floor(Date.now() / 1000).toString(),
+          'X-Nonce': 'post-nonce',
+          'X-Context': 'test-context',
+          'X-Stamp': 'test-stamp'
+        }
+      });
+      
+      const result = await powCloudflare.handleRequest(postRequest);
+      
+      expect(result.action).toBe('forward');
+      if (result.action !== 'forward') return;
+      expect(result.request.url).toBe('https://example.com/api/test?page=2');
+      expect(result.request.method).toBe('POST');
+      expect(result.request.headers.get('X-HMAC')).toBe('mocked-hmac');
+      expect(result.request.headers.get('X-HMAC-Version')).toBe('v2');
+      expect(result.request.headers.get('X-Content-Digest'))
+        .toBe(CryptoUtils.sha256Bytes(new TextEncoder().encode(JSON.stringify({ hello: 'world' }))));
+      expect(result.request.headers.get('Content-Type')).toBe('application/json');
+      expect(await result.request.json()).toEqual({ hello: 'world' });
+    });
+  });
+  
+  describe('shared nonce storage', () => {
+    it('should reject nonces already recorded in KV by another isolate', async () => {
+      const entries = new Map<string, string>();
+      const kv = {
+        get: async (key: string) => entries.get(key) ?? null,
+        put: async (key: string, value: string) => {
+          entries.set(key, value);
+        }
+      };
+      const config = {
+        endpoints: ['/api/test'],
+        secret: 'test-secret',
+        cacheType: 'kv' as const
+      };
+      const request = () => new Request('https://example.com/api/test', {
+        headers: {
+          'X-Timestamp': Math.floor(Date.now() / 1000).toString(),
+          'X-Nonce': 'kv-nonce',
+          'X-Context': 'test-context',
+          'X-Stamp': 'test-stamp'
+        }
+      });
+      (CryptoUtils.sha256 as jest.Mock).mockReturnValue('test-stamp');
+      
+      const first = await new PowCloudflare(config, { kv }).handleRequest(request());
+      const second = await new PowCloudflare(config, { kv }).handleRequest(request());
+      
+      expect(first.action).toBe('forward');
+      expect(second.action).toBe('reject');
+      expect(second.action === 'reject' && await second.response.json()).toEqual({ code: 'POW_REPLAY', message: 'Nonce already used' });
+    });
+    
+    it('should share nonces and rate counters through the coordinator Durable Object', async () => {
+      const entries = new Map<string, any>();
+      const coordinator = new PowShieldCoordinator({
+        storage: {
+          get: async (key: string) => entries.get(key),
+          put: async (key: string, value: any) => {
+            entries.set(key, value);
+          },
+          delete: async () => 0,
+          list: async () => new Map(),
+          getAlarm: async () => null,
+          setAlarm: async () => {}
+        }
+      });
+      const durableObject = {
+        idFromName: (name: string) => name,
+        get: () => ({
+          fetch: (input: string | Request, init?: RequestInit) => coordinator.fetch(new Request(input, init))
+        })
+      };
+      const config = {
+        endpoints: ['/api/test'],
+        secret: 'test-secret',
+        cacheType: 'durableObject' as const,
+        cloudflare: {
+          rateLimiting: true,
+          requestsPerMinute: 2   // The replayed request counts too
+        }
+      };
+      const request = (nonce: string) => new Request('https://example.com/api/test', {
+        headers: {
+          'X-Timestamp': Math.floor(Date.now() / 1000).toString(),
+          'X-Nonce': nonce,
+          'X-Context': 'test-context',
+          'X-Stamp': 'test-stamp',
+          'CF-Connecting-IP': '192.168.1.3'
+        }
+      });
+      (CryptoUtils.sha256 as jest.Mock).mockReturnValue('test-stamp');
+      
+      const first = await new PowCloudflare(config, { durableObject }).handleRequest(request('do-nonce'));
+      const replayed = await new PowCloudflare(config, { durableObject }).handleRequest(request('do-nonce'));
+      const limited = await new PowCloudflare(config, { durableObject }).handleRequest(request('do-other'));
+      
+      expect(first.action).toBe('forward');
+      expect(replayed.action === 'reject' && await replayed.response.json()).toEqual({ code: 'POW_REPLAY', message: 'Nonce already used' });
+      expect(limited.action === 'reject' && limited.response.status).toBe(429);
+    });
+  });
+  
+  describe('rate limiting', () => {
+    const request = (path: string, nonce: string) => new Request(`https://example.com${path}`, {
+      headers: {
+        'X-Timestamp': Math.floor(Date.now() / 1000).toString(),
+        'X-Nonce': nonce,
+        'X-Context': 'test-context',
+        'X-Stamp': 'test-stamp',
+        'CF-Connecting-IP': '192.168.1.4'
+      }
+    });
+    
+    beforeEach(() => {
+      (CryptoUtils.sha256 as jest.Mock).mockReturnValue('test-stamp');
+    });
+    
+    it('should count endpoints with their own limit separately', async () => {
+      const limitedCloudflare = new PowCloudflare({
+        endpoints: [{ pattern: '/api/submit*', requestsPerMinute: 2 }, '/api/*'],
+        secret: 'test-secret',
+        cloudflare: {
+          requestsPerMinute: 1
+        }
+      });
+      
+      const results = [
+        await limitedCloudflare.handleRequest(request('/api/submit', 'n1')),
+        await limitedCloudflare.handleRequest(request('/api/submit/form', 'n2')),
+        await limitedCloudflare.handleRequest(request('/api/submit', 'n3')),
+        await limitedCloudflare.handleRequest(request('/api/data', 'n4')),
+        await limitedCloudflare.handleRequest(request('/api/data', 'n5'))
+      ];
+      
+      expect(results.map(result => result.action)).toEqual(['forward', 'forward', 'reject', 'forward', 'reject']);
+    });
+    
+    it('should apply the rate limit of the matching endpoint rule', async () => {
+      const ruleCloudflare = new PowCloudflare({
+        endpoints: [
+          { pattern: '/api/submit', methods: ['POST'], requestsPerMinute: 1 },
+          '/api/*'
+        ],
+        secret: 'test-secret',
+        cloudflare: {
+          requestsPerMinute: 5
+        }
+      });
+      const post = (nonce: string) => new Request(request('/api/submit', nonce), { method: 'POST' });
+      
+      const first = await ruleCloudflare.handleRequest(post('rule-1'));
+      const second = await ruleCloudflare.handleRequest(post('rule-2'));
+      const get = await ruleCloudflare.handleRequest(request('/api/submit', 'rule-3'));
+      
+      expect(first.action).toBe('forward');
+      expect(second.action === 'reject' && second.response.status).toBe(429);
+      expect(get.action).toBe('forward');
+    });
+    
+    it('should use the configured algorithm', async () => {
+      const bucketCloudflare = new PowCloudflare({
+        endpoints: ['/api/test'],
+        secret: 'test-secret',
+        cloudflare: {
+          requestsPerMinute: 1,
+          rateLimitAlgorithm: 'tokenBucket'
+        }
+      });
+      
+      await bucketCloudflare.handleRequest(request('/api/test', 'bucket-1'));
+      const result = await bucketCloudflare.handleRequest(request('/api/test', 'bucket-2'));
+      
+      expect(result.action === 'reject' && result.response.status).toBe(429);
+      expect(result.action === 'reject' && result.response.headers.get('Retry-After')).toBe('60');
+    });
+  });
+  
+  describe('adaptive difficulty', () => {
+    let adaptiveCloudflare: PowCloudflare;
+    const request = (nonce: string, stamp: string = 'test-stamp') => new Request('https://example.com/api/test', {
+      headers: {
+        'X-Timestamp': Math.floor(Date.now() / 1000).toString(),
+        'X-Nonce': nonce,
+        'X-Context': 'test-context',
+        'X-Stamp': stamp,
+        'CF-Connecting-IP': '192.168.1.5'
+      }
+    });
+    
+    beforeEach(() => {
+      jest.spyOn(Date, 'now').mockReturnValue(1700000000 * 1000);
+      (CryptoUtils.sha256 as jest.Mock).mockReturnValue('test-stamp');
+      adaptiveCloudflare = new PowCloudflare({
+        endpoints: ['/api/test'],
+        secret: 'test-secret',
+        difficulty: 4,
+        adaptiveDifficulty: {
+          enabled: true,
+          failureThreshold: 1
+        }
+      });
+    });
+    
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+    
+    it('should advertise the required difficulty on rejections', async () => {
+      const result = await adaptiveCloudflare.handleRequest(request('bad-nonce', 'wrong-stamp'));
+      
+      expect(result.action === 'reject' && result.response.headers.get('X-Pow-Difficulty')).toBe('4');
+    });
+    
+    it('should require more work from clients that keep failing', async () => {
+      // The stamp does not match, which counts as a failure
+      await adaptiveCloudflare.handleRequest(request('bad-nonce', 'wrong-stamp'));
+      
+      const result = await adaptiveCloudflare.handleRequest(request('good-nonce'));
+      
+      expect(CryptoUtils.hasLeadingZeros).toHaveBeenLastCalledWith('test-stamp', 5);
+      expect(result.action === 'forward' && result.difficulty).toBe(5);
+    });
+    
+    it('should add the difficulty header to origin responses', async () => {
+      const response = await adaptiveCloudflare.protect(request('protect-nonce'), async () => new Response('ok'));
+      
+      expect(response.headers.get('X-Pow-Difficulty')).toBe('4');
+    });
+    
+    it('should not count failures against other IPs that send the same context', async () => {
+      await adaptiveCloudflare.handleRequest(request('bad-nonce', 'wrong-stamp'));
+      
+      const otherIp = new Request('https://example.com/api/test', {
+        headers: {
+          'X-Timestamp': Math.floor(Date.now() / 1000).toString(),
+          'X-Nonce': 'other-ip-nonce',
+          'X-Context': 'test-context',
+          'X-Stamp': 'test-stamp',
+          'CF-Connecting-IP': '192.168.1.6'
+        }
+      });
+      const result = await adaptiveCloudflare.handleRequest(otherIp);
+      
+      expect(result.action === 'forward' && result.difficulty).toBe(4);
+    });
+    
+    it('should count load across all paths of a rule', async () => {
+      const itemsCloudflare = new PowCloudflare({
+        endpoints: ['/api/items/*'],
+        secret: 'test-secret',
+        difficulty: 4,
+        adaptiveDifficulty: {
+          enabled: true,
+          loadThreshold: 3
+        }
+      });
+      const item = (id: number) => itemsCloudflare.handleRequest(new Request(`https://example.com/api/items/${id}`, {
+        headers: {
+          'X-Timestamp': Math.floor(Date.now() / 1000).toString(),
+          'X-Nonce': `item-nonce-${id}`,
+          'X-Context': 'test-context',
+          'X-Stamp': 'test-stamp'
+        }
+      }));
+      
+      await item(1);
+      await item(2);
+      const third = await item(3);
+      
+      expect(third.action === 'forward' && third.difficulty).toBe(5);
+    });
+  });
+  
+  describe('HMAC versions', () => {
+    const validRequest = (nonce: string) => new Request('https://example.com/api/test?b=2&a=1', {
+      method: 'PUT',
+      body: 'payload',
+      headers: {
+        'X-Timestamp': '1700000000',
+        'X-Nonce': nonce,
+        'X-Context': 'test-context',
+        'X-Stamp': 'test-stamp'
+      }
+    });
+    
+    beforeEach(() => {
+      jest.spyOn(Date, 'now').mockReturnValue(1700000000 * 1000);
+      (CryptoUtils.sha256 as jest.Mock).mockReturnValue('test-stamp');
+    });
+    
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+    
+    it('should sign the v2 canonical string by default', async () => {
+      await powCloudflare.handleRequest(validRequest('v2-nonce'));
+      
+      const bodyHash = CryptoUtils.sha256Bytes(new TextEncoder().encode('payload'));
+      expect(CryptoUtils.hmac).toHaveBeenCalledWith(
+        `v2\nPUT\n/api/test\na=1&b=2\n1700000000\nv2-nonce\ntest-context\n${bodyHash}`,
+        'test-secret',
+        'sha256'
+      );
+    });
+    
+    it('should sign the v1 canonical string when configured', async () => {
+      const legacyCloudflare = new PowCloudflare({
+        endpoints: ['/api/test'],
+        secret: 'test-secret',
+        hmacVersion: 'v1'
+      });
+      
+      const result = await legacyCloudflare.handleRequest(validRequest('v1-nonce'));
+      
+      expect(CryptoUtils.hmac).toHaveBeenCalledWith('1700000000:v1-nonce:test-context', 'test-secret', 'sha256');
+      expect(result.action === 'forward' && result.request.headers.get('X-HMAC-Version')).toBe('v1');
+      expect(result.action === 'forward' && result.request.headers.has('X-Content-Digest')).toBe(false);
+    });
+    
+    it('should sign with the newest active key and name it', async () => {
+      const rotatingCloudflare = new PowCloudflare({
+        endpoints: ['/api/test'],
+        secrets: [
+          { id: 'expired', secret: 'expired-secret', notAfter: 1700000000 - 1 },
+          { id: 'current', secret: 'current-secret' },
+          { id: 'previous', secret: 'previous-secret' }
+        ]
+      });
+      
+      const result = await rotatingCloudflare.handleRequest(validRequest('key-nonce'));
+      
+      expect(CryptoUtils.hmac).toHaveBeenCalledWith(expect.any(String), 'current-secret', 'sha256');
+      expect(result.action === 'forward' && result.request.headers.get('X-HMAC-Key-Id')).toBe('current');
+    });
+    
+    it('should not forward key IDs sent by the client', async () => {
+      const request = validRequest('spoofed-nonce');
+      request.headers.set('X-HMAC-Key-Id', 'previous');
+      
+      const result = await powCloudflare.handleRequest(request);
+      
+      expect(result.action === 'forward' && result.request.headers.has('X-HMAC-Key-Id')).toBe(false);
+    });
+    
+    it('should verify the stamp before reading the body', async () => {
+      const sha256Bytes = jest.spyOn(CryptoUtils, 'sha256Bytes');
+      (CryptoUtils.sha256 as jest.Mock).mockReturnValue('other-stamp');
+      
+      const result = await powCloudflare.handleRequest(validRequest('unread-nonce'));
+      
+      expect(result.action === 'reject' && result.response.status).toBe(403);
+      expect(sha256Bytes).not.toHaveBeenCalled();
+    });
+    
+    it('should reject bodies larger than maxBodySize', async () => {
+      const smallCloudflare = new PowCloudflare({
+        endpoints: ['/api/test'],
+        secret: 'test-secret',
+        cloudflare: { maxBodySize: 4 }
+      });
+      const declared = validRequest('declared-nonce');
+      declared.headers.set('Content-Length', '1000000');
+      
+      const streamed = await smallCloudflare.handleRequest(validRequest('streamed-nonce'));
+      const declaredResult = await smallCloudflare.handleRequest(declared);
+      const fits = await new PowCloudflare({
+        endpoints: ['/api/test'],
+        secret: 'test-secret',
+        cloudflare: { maxBodySize: 7 }
+      }).handleRequest(validRequest('fits-nonce'));
+      
+      expect(streamed.action === 'reject' && streamed.response.status).toBe(413);
+      expect(streamed.action === 'reject' && await streamed.response.json()).toEqual({
+        code: 'BODY_TOO_LARGE',
+        message: 'Request body too large'
+      });
+      expect(declaredResult.action === 'reject' && declaredResult.response.status).toBe(413);
+      expect(fits.action).toBe('forward');
+    });
+  });
+  
+  describe('access tokens', () => {
+    let tokenCloudflare: PowCloudflare;
+    let nonce = 0;
+    
+    beforeEach(() => {
+      tokenCloudflare = new PowCloudflare({
+        endpoints: ['/api/test', '/api/other'],
+        secret: 'test-secret',
+        token: {
+          enabled: true,
+          maxRequests: 2
+        }
+      });
+    });
+    
+    const send = (path: string, headers: Record<string, string>) => tokenCloudflare.handleRequest(
+      new Request(`https://example.com${path}`, {
+        headers: {
+          'X-Timestamp': Math.floor(Date.now() / 1000).toString(),
+          'X-Nonce': `token-nonce-${nonce++}`,
+          'X-Context': 'test-context',
+          ...headers
+        }
+      })
+    );
+    
+    const issueToken = async () => {
+      const result = await send('/api/test', { 'X-Stamp': 'test-stamp' });
+      if (result.action !== 'forward' || !result.token) throw new Error('Expected a token');
+      return result.token;
+    };
+    
+    it('should issue a token for a solved stamp and return it with the origin response', async () => {
+      const response = await tokenCloudflare.protect(new Request('https://example.com/api/test', {
+        headers: {
+          'X-Timestamp': Math.floor(Date.now() / 1000).toString(),
+          'X-Nonce': 'protect-token-nonce',
+          'X-Context': 'test-context',
+          'X-Stamp': 'test-stamp'
+        }
+      }), async () => new Response('ok'));
+      
+      expect(response.headers.get('X-Pow-Token')).toMatch(/^[0-9a-f]{32}\.\d+\.2\.mocked-hmac$/);
+    });
+    
+    it('should accept the token in place of a stamp until its budget is used up', async () => {
+      const token = await issueToken();
+      
+      const first = await send('/api/test', { 'X-Pow-Token': token });
+      const second = await send('/api/test', { 'X-Pow-Token': token });
+      const third = await send('/api/test', { 'X-Pow-Token': token });
+      
+      expect(first.action).toBe('forward');
+      expect(first.action === 'forward' && first.token).toBeUndefined();
+      expect(second.action).toBe('forward');
+      expect(third.action).toBe('reject');
+      expect(third.action === 'reject' && await third.response.json()).toEqual({
+        code: 'POW_TOKEN_INVALID',
+        message: 'Access token used up'
+      });
+    });
+    
+    it('should reject tokens sent by another client or for another rule', async () => {
+      const token = await issueToken();
+      
+      // The signature check sees the request's context and rule
+      (CryptoUtils.hmac as jest.Mock).mockImplementation((data: string) =>
+        data.includes('"test-context","/api/test"') ? 'mocked-hmac' : 'other-hmac');
+      
+      const otherContext = await send('/api/test', { 'X-Pow-Token': token, 'X-Context': 'other-context' });
+      const otherRule = await send('/api/other', { 'X-Pow-Token': token });
+      const sameRule = await send('/api/test', { 'X-Pow-Token': token });
+      (CryptoUtils.hmac as jest.Mock).mockReturnValue('mocked-hmac');
+      
+      expect(otherContext.action === 'reject' && otherContext.response.status).toBe(403);
+      expect(otherRule.action === 'reject' && otherRule.response.status).toBe(403);
+      expect(sameRule.action).toBe('forward');
+    });
+    
+    it('should ignore tokens unless enabled', async () => {
+      const token = await issueToken();
+      
+      const result = await powCloudflare.handleRequest(new Request('https://example.com/api/test', {
+        headers: {
+          'X-Timestamp': Math.floor(Date.now() / 1000).toString(),
+          'X-Nonce': 'disabled-token-nonce',
+          'X-Context': 'test-context',
+          'X-Pow-Token': token
+        }
+      }));
+      
+      expect(result.action === 'reject' && result.response.status).toBe(400);
+    });
+  });
+  
+  describe('interstitial page', () => {
+    let pageCloudflare: PowCloudflare;
+    
+    beforeEach(() => {
+      pageCloudflare = new PowCloudflare({
+        endpoints: ['/api/test'],
+        secret: 'test-secret',
+        interstitial: {
+          enabled: true,
+          maxRequests: 2
+        }
+      });
+      
+      // Stamp inputs hash to the expected stamp; User-Agents hash to distinct contexts
+      (CryptoUtils.sha256 as jest.Mock).mockImplementation((data: string) =>
+        data.includes(':') ? 'test-stamp' : `mocked-hash-${data}`);
+    });
+    
+    afterEach(() => {
+      (CryptoUtils.sha256 as jest.Mock).mockReturnValue('test-stamp');
+    });
+    
+    const navigate = (path: string, headers: Record<string, string> = {}) => pageCloudflare.handleRequest(
+      new Request(`https://example.com${path}`, {
+        headers: { 'Accept': 'text/html', 'User-Agent': 'browser-a', ...headers }
+      })
+    );
+    
+    const clear = (returnPath: string, headers: Record<string, string> = {}) => pageCloudflare.handleRequest(
+      new Request(`https://example.com/pow-interstitial?return=${encodeURIComponent(returnPath)}`, {
+        method: 'POST',
+        headers: {
+          'User-Agent': 'browser-a',
+          'X-Timestamp': Math.floor(Date.now() / 1000).toString(),
+          'X-Nonce': CryptoUtils.generateNonce(),
+          'X-Context': 'mocked-hash-browser-a',
+          'X-Stamp': 'test-stamp',
+          ...headers
+        }
+      })
+    );
+    
+    const getClearanceCookie = async () => {
+      const result = await clear('/api/test');
+      if (result.action !== 'respond') throw new Error('Expected a clearance response');
+      return (result.response.headers.get('Set-Cookie') || '').split(';')[0];
+    };
+    
+    it('should answer navigations without PoW with the page', async () => {
+      const result = await navigate('/api/test?q=1');
+      
+      expect(result.action).toBe('respond');
+      if (result.action !== 'respond') return;
+      expect(result.response.status).toBe(403);
+      expect(result.response.headers.get('Content-Type')).toBe('text/html; charset=utf-8');
+      expect(result.response.headers.get('Cache-Control')).toBe('no-store');
+      
+      const page = await result.response.text();
+      expect(page).toContain('"verifyUrl":"/pow-interstitial?return=%2Fapi%2Ftest%3Fq%3D1"');
+      expect(page).toContain('"X-Context":"mocked-hash-browser-a"');
+      expect(page).toContain('self.onmessage');
+    });
+    
+    it('should still reject other requests without PoW', async () => {
+      const result = await pageCloudflare.handleRequest(new Request('https://example.com/api/test', {
+        headers: { 'Accept': 'application/json' }
+      }));
+      
+      expect(result.action === 'reject' && result.response.status).toBe(400);
+    });
+    
+    it('should set a clearance cookie for a solved stamp', async () => {
+      const result = await clear('/api/test');
+      
+      expect(result.action).toBe('respond');
+      if (result.action !== 'respond') return;
+      expect(result.response.status).toBe(204);
+      expect(result.response.headers.get('Set-Cookie')).toMatch(
+        /^pow_clearance=[0-9a-f]{32}\.\d+\.2\.mocked-hmac; Path=\/; Max-Age=3600; HttpOnly; SameSite=Lax; Secure$/
+      );
+    });
+    
+    it('should only return to protected pages on the same origin', async () => {
+      const otherOrigin = await clear('https://evil.example/api/test');
+      const unprotected = await clear('/public');
+      
+      expect(otherOrigin.action === 'reject' && otherOrigin.response.status).toBe(400);
+      expect(unprotected.action === 'reject' && unprotected.response.status).toBe(400);
+    });
+    
+    it('should reject invalid stamps on the verify route', async () => {
+      const result = await clear('/api/test', { 'X-Stamp': 'wrong-stamp' });
+      
+      expect(result.action === 'reject' && result.response.status).toBe(403);
+    });
+    
+    it('should forward signed requests with the cookie until its budget is used up', async () => {
+      const cookie = await getClearanceCookie();
+      
+      const first = await navigate('/api/test', { 'Cookie': `other=1; ${cookie}` });
+      const second = await navigate('/api/test', { 'Cookie': cookie });
+      const third = await navigate('/api/test', { 'Cookie': cookie });
+      
+      expect(first.action).toBe('forward');
+      if (first.action !== 'forward') return;
+      expect(first.request.headers.get('X-HMAC')).toBe('mocked-hmac');
+      expect(first.request.headers.get('X-Context')).toBe('mocked-hash-browser-a');
+      expect(first.request.headers.get('X-Nonce')).toMatch(/^[0-9a-f]{32}$/);
+      expect(second.action).toBe('forward');
+      expect(third.action).toBe('respond');
+    });
+    
+    it('should not accept access tokens as cookies, or cookies as access tokens, for a catch-all rule', async () => {
+      const catchAll = new PowCloudflare({
+        endpoints: ['*'],
+        secret: 'test-secret',
+        token: { enabled: true },
+        interstitial: { enabled: true }
+      });
+      const headers = {
+        'User-Agent': 'browser-a',
+        'X-Timestamp': Math.floor(Date.now() / 1000).toString(),
+        'X-Context': 'mocked-hash-browser-a'
+      };
+      
+      // Signatures differ by prefix, as with the real HMAC
+      (CryptoUtils.hmac as jest.Mock).mockImplementation((data: string) => {
+        const prefix = data.match(/^(token|clearance):/);
+        return prefix ? `hmac-${prefix[1]}` : 'mocked-hmac';
+      });
+      
+      const solved = await catchAll.handleRequest(new Request('https://example.com/api/test', {
+        headers: { ...headers, 'X-Nonce': CryptoUtils.generateNonce(), 'X-Stamp': 'test-stamp' }
+      }));
+      const cleared = await catchAll.handleRequest(new Request('https://example.com/pow-interstitial?return=%2Fapi%2Ftest', {
+        method: 'POST',
+        headers: { ...headers, 'X-Nonce': CryptoUtils.generateNonce(), 'X-Stamp': 'test-stamp' }
+      }));
+      const accessToken = solved.action === 'forward' ? solved.token : undefined;
+      const cookie = cleared.action === 'respond' ? (cleared.response.headers.get('Set-Cookie') || '').split(';')[0] : '';
+      
+      const tokenAsCookie = await catchAll.handleRequest(new Request('https://example.com/api/test', {
+        headers: { 'Accept': 'text/html', 'User-Agent': 'browser-a', 'Cookie': `pow_clearance=${accessToken}` }
+      }));
+      const cookieAsToken = await catchAll.handleRequest(new Request('https://example.com/api/test', {
+        headers: { ...headers, 'X-Nonce': CryptoUtils.generateNonce(), 'X-Pow-Token': cookie.slice(cookie.indexOf('=') + 1) }
+      }));
+      const cookieAsCookie = await catchAll.handleRequest(new Request('https://example.com/api/test', {
+        headers: { 'Accept': 'text/html', 'User-Agent': 'browser-a', 'Cookie': cookie }
+      }));
+      (CryptoUtils.hmac as jest.Mock).mockReturnValue('mocked-hmac');
+      
+      expect(accessToken).toBeDefined();
+      expect(cookie).toMatch(/^pow_clearance=.+\.hmac-clearance$/);
+      expect(tokenAsCookie.action).toBe('respond');
+      expect(cookieAsToken.action === 'reject' && await cookieAsToken.response.json()).toEqual({
+        code: 'POW_TOKEN_INVALID',
+        message: 'Access token expired or invalid'
+      });
+      expect(cookieAsCookie.action).toBe('forward');
+    });
+    
+    it('should not accept the cookie from another browser', async () => {
+      const cookie = await getClearanceCookie();
+      
+      // The signature check sees the context derived from the request
+      (CryptoUtils.hmac as jest.Mock).mockImplementation((data: string) =>
+        data.includes('"mocked-hash-browser-a"') ? 'mocked-hmac' : 'other-hmac');
+      const other = await navigate('/api/test', { 'Cookie': cookie, 'User-Agent': 'browser-b' });
+      const same = await navigate('/api/test', { 'Cookie': cookie });
+      (CryptoUtils.hmac as jest.Mock).mockReturnValue('mocked-hmac');
+      
+      expect(other.action).toBe('respond');
+      expect(same.action).toBe('forward');
+    });
+  });
+  
+  describe('challenge mode', () => {
+    let challengeCloudflare: PowCloudflare;
+    
+    beforeEach(() => {
+      challengeCloudflare = new PowCloudflare({
+        endpoints: ['/api/test'],
+        secret: 'test-secret',
+        difficulty: 4,
+        challenge: {
+          enabled: true
+        }
+      });
+    });
+    
+    const fetchChallenge = async () => {
+      const result = await challengeCloudflare.handleRequest(new Request('https://example.com/pow-challenge'));
+      expect(result.action).toBe('respond');
+      if (result.action !== 'respond') throw new Error('Expected a challenge response');
+      return result.response;
+    };
+    
+    it('should serve signed challenges on the challenge route', async () => {
+      const response = await fetchChallenge();
+      const challenge = await response.json();
+      
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Cache-Control')).toBe('no-store');
+      expect(challenge.seed).toMatch(/^[0-9a-f]{32}$/);
+      expect(challenge.difficulty).toBe(4);
+      expect(challenge.signature).toBe('mocked-hmac');
+    });
+    
+    it('should reject protected requests without a challenge', async () => {
+      const result = await challengeCloudflare.handleRequest(new Request('https://example.com/api/test', {
+        headers: {
+          'X-Timestamp': Math.floor(Date.now() / 1000).toString(),
+          'X-Nonce': 'no-challenge-nonce',
+          'X-Context': 'test-context',
+          'X-Stamp': 'test-stamp'
+        }
+      }));
+      
+      expect(result.action).toBe('reject');
+      expect(result.action === 'reject' && result.response.status).toBe(400);
+    });
+    
+    it('should reject expired challenges', async () => {
+      const result = await challengeCloudflare.handleRequest(new Request('https://example.com/api/test', {
+        headers: {
+          'X-Timestamp': Math.floor(Date.now() / 1000).toString(),
+          'X-Nonce': 'expired-challenge-nonce',
+          'X-Context': 'test-context',
+          'X-Stamp': 'test-stamp',
+          'X-Challenge': `seed.4.${Math.floor(Date.now() / 1000) - 1}.mocked-hmac`
+        }
+      }));
+      
+      expect(result.action).toBe('reject');
+      expect(result.action === 'reject' && result.response.status).toBe(403);
+    });
+    
+    it('should accept stamps that include the challenge seed', async () => {
+      const challenge = await (await fetchChallenge()).json();
+      (CryptoUtils.sha256 as jest.Mock).mockReturnValue('test-stamp');
+      
+      const result = await challengeCloudflare.handleRequest(new Request('https://example.com/api/test', {
+        headers: {
+          'X-Timestamp': Math.floor(Date.now() / 1000).toString(),
+          'X-Nonce': 'challenge-nonce',
+          'X-Context': 'test-context',
+          'X-Stamp': 'test-stamp',
+          'X-Challenge': `${challenge.seed}.${challenge.difficulty}.${challenge.expires}.${challenge.signature}`
+        }
+      }));
+      
+      expect(result.action).toBe('forward');
+      expect(CryptoUtils.sha256).toHaveBeenCalledWith(expect.stringMatching(new RegExp(`:${challenge.seed}$`)));
+    });
+  });
+  
+  describe('protect', () => {
+    it('should forward valid requests to origin with the HMAC header', async () => {
+      (CryptoUtils.sha256 as jest.Mock).mockReturnValue('test-stamp');
+      const originFetch = jest.fn().mockResolvedValue(new Response('origin response'));
+      
+      const response = await powCloudflare.protect(new Request('https://example.com/api/test', {
+        headers: {
+          'X-Timestamp': Math.floor(Date.now() / 1000).toString(),
+          'X-Nonce': 'protect-nonce',
+          'X-Context': 'test-context',
+          'X-Stamp': 'test-stamp'
+        }
+      }), originFetch);
+      
+      expect(originFetch).toHaveBeenCalledTimes(1);
+      const forwarded: Request = originFetch.mock.calls[0][0];
+      expect(forwarded.headers.get('X-HMAC')).toBe('mocked-hmac');
+      expect(await response.text()).toBe('origin response');
+      
+      // The client learns how much of its allowance is left
+      expect(response.headers.get('RateLimit-Limit')).toBe('5');
+      expect(response.headers.get('RateLimit-Remaining')).toBe('4');
+    });
+    
+    it('should answer challenge requests without contacting origin', async () => {
+      const challengeCloudflare = new PowCloudflare({
+        endpoints: ['/api/test'],
+        secret: 'test-secret',
+        challenge: { enabled: true, path: '/custom-challenge' }
+      });
+      const originFetch = jest.fn();
+      
+      const response = await challengeCloudflare.protect(new Request('https://example.com/custom-challenge'), originFetch);
+      
+      expect(response.status).toBe(200);
+      expect(originFetch).not.toHaveBeenCalled();
+    });
+    
+    it('should return the rejection without contacting origin', async () => {
+      const originFetch = jest.fn();
+      
+      const response = await powCloudflare.protect(new Request('https://example.com/api/test'), originFetch);
+      
+      expect(response.status).toBe(400);
+      expect(originFetch).not.toHaveBeenCalled();
+    });
   });
 });
\ No newline at end of file
@@ -6,8 +6,10 @@ import { LRUCache } from 'lru-cache';
 jest.mock('../src/utils/crypto', () => ({
   CryptoUtils: {
     sha256: jest.fn().mockImplementation(data => `mocked-hash-${data}`),
-    hmac: jest.fn().mockImplementation((data, secret) => `mocked-hmac-${data}-${secret}`),
-    hasLeadingZeros: jest.fn().mockReturnValue(true)
+    sha256Bytes: jest.fn().mockReturnValue('mocked-digest'),
+    hmac: jest.fn().mockImplementation((data, secret) => `mocked-hmac-${data.replace(/\n/g, '|')}-${secret}`),
+    hasLeadingZeros: jest.fn().mockReturnValue(true),
+    timingSafeEqual: jest.fn().mockImplementation((actual, expected) => actual === expected)
   }
 }));
 
@@ -17,7 +19,10 @@ jest.mock('lru-cache', () => {
     LRUCache: jest.fn().mockImplementation(() => ({
       has: jest.fn().mockImplementation(key => key === 'existing-nonce'),
       set: jest.fn(),
-      get: jest.fn().mockImplementation(key => key === 'rate:192.168.1.1' ? 5 : 0)
+      // 192.168.1.1 has used up its allowance in the current window
+      get: jest.fn().mockImplementation(key => key === '192.168.1.1'
+        ? { algorithm: 'fixedWindow', windowStart: Date.now() - 1000, count: 5 }
+        : undefined)
     }))
   };
 });
@@ -63,8 +68,9 @@ describe('PowCloudflare', () => {
       
       const result = await powCloudflare.handleRequest(nonProtectedRequest);
       
-      // Should return null to pass through to origin
-      expect(result).toBeNull();
+      // Should forward the original request to origin
+      expect(result.action).toBe('forward');
+      expect(result.action === 'forward' && result.request).toBe(nonProtectedRequest);
     });
     
     it('should reject requests without required headers', async () => {
@@ -73,8 +79,8 @@ describe('PowCloudflare', () => {
       const result = await powCloudflare.handleRequest(incompleteRequest);
       
       // Should return a 400 response
-      expect(result).toBeInstanceOf(Response);
-      expect(result?.status).toBe(400);
+      expect(result.action).toBe('reject');
+      expect(result.action === 'reject' && result.response.status).toBe(400);
     });
     
     it('should reject requests with expired timestamps', async () => {
@@ -91,8 +97,8 @@ describe('PowCloudflare', () => {
       const result = await powCloudflare.handleRequest(expiredRequest);
       
       // Should return a 403 response
-      expect(result).toBeInstanceOf(Response);
-      expect(result?.status).toBe(403);
+      expect(result.action).toBe('reject');
+      expect(result.action === 'reject' && result.response.status).toBe(403);
     });
     
     it('should reject requests with used nonces', async () => {
@@ -108,8 +114,8 @@ describe('PowCloudflare', () => {
       const result = await powCloudflare.handleRequest(nonceRequest);
       
       // Should return a 403 response
-      expect(result).toBeInstanceOf(Response);
-      expect(result?.status).toBe(403);
+      expect(result.action).toBe('reject');
+      expect(result.action === 'reject' && result.response.status).toBe(403);
     });
     
     it('should reject requests that exceed rate limits', async () => {
@@ -123,16 +129,16 @@ describe('PowCloudflare', () => {
         }
       });
       
-      // Configure hasLeadingZeros to return true for validation
-      (CryptoUtils.hasLeadingZeros as jest.Mock).mockReturnValueOnce(true);
-
-      (CryptoUtils.sha256 as jest.Mock).mockReturnValueOnce('test-stamp');
-      
       const result = await powCloudflare.handleRequest(rateLimitRequest);
       
       // Should return a 429 response
-      expect(result).toBeInstanceOf(Response);
-      expect(result?.status).toBe(429);
+      expect(result.action).toBe('reject');
+      expect(result.action === 'reject' && result.response.status).toBe(429);
+      expect(result.action === 'reject' && result.response.headers.get('RateLimit-Remaining')).toBe('0');
+      expect(result.action === 'reject' && result.response.headers.get('Retry-After')).toBe('59');
+      
+      // Rejected before the stamp is checked
+      expect(CryptoUtils.timingSafeEqual).not.toHaveBeenCalled();
     });
     
     it('should add HMAC signature to valid requests', async () => {
@@ -142,11 +148,21 @@ describe('PowCloudflare', () => {
       
       const result = await powCloudflare.handleRequest(mockRequest);
       
-      // Should return null to pass to origin with modified headers
-      expect(result).toBeNull();
+      // Should forward a request carrying the HMAC header
+      expect(result.action).toBe('forward');
+      expect(result.action === 'forward' && result.request.headers.get('X-HMAC')).toBeTruthy();
       
       // Verify HMAC was generated
       expect(CryptoUtils.hmac).toHaveBeenCalled();
     });
+    
+    it('should compare stamps in constant time', async () => {
+      (CryptoUtils.sha256 as jest.Mock).mockReturnValueOnce('expected-stamp');
+      
+      const result = await powCloudflare.handleRequest(mockRequest);
+      
+      expect(result.action).toBe('reject');
+      expect(CryptoUtils.timingSafeEqual).toHaveBeenCalledWith('test-stamp', 'expected-stamp');
+    });
   });
 });
\ No newline at end of file
@@ -64,5 +64,104 @@ describe('Configuration', () => {
         secret: 'test-secret'
       })).toThrow('PoW Shield requires at least one endpoint to protect');
     });
+    
+    it('should accept rotating secrets in place of a single secret', () => {
+      expect(validateAndMergeConfig({
+        endpoints: ['/api/test'],
+        secrets: [{ id: 'new', secret: 'new-secret' }, { id: 'old', secret: 'old-secret', notAfter: 1700000000 }]
+      }, 'server').secrets).toHaveLength(2);
+      
+      expect(() => validateAndMergeConfig({
+        endpoints: ['/api/test'],
+        secrets: [{ id: '', secret: 'new-secret' }]
+      }, 'server')).toThrow('PoW Shield secrets require an id and a secret');
+      
+      expect(() => validateAndMergeConfig({
+        endpoints: ['/api/test'],
+        secrets: [{ id: 'key', secret: 'new-secret' }, { id: 'key', secret: 'old-secret' }]
+      }, 'server')).toThrow('PoW Shield secret id is not unique: key');
+    });
+    
+    it('should require the key each side needs for asymmetric signatures', () => {
+      expect(() => validateAndMergeConfig({
+        endpoints: ['/api/test'],
+        signatureAlgorithm: 'ed25519'
+      }, 'cloudflare')).toThrow('PoW Shield requires a private key for ed25519 signatures');
+      
+      expect(() => validateAndMergeConfig({
+        endpoints: ['/api/test'],
+        signatureAlgorithm: 'ecdsa-p256'
+      }, 'server')).toThrow('PoW Shield requires a public key for ecdsa-p256 signatures');
+      
+      // Challenges are still signed with the shared secret
+      expect(() => validateAndMergeConfig({
+        endpoints: ['/api/test'],
+        signatureAlgorithm: 'ed25519',
+        privateKey: 'private-key',
+        challenge: { enabled: true }
+      }, 'cloudflare')).toThrow('PoW Shield requires a shared secret for HMAC generation');
+      
+      expect(validateAndMergeConfig({
+        endpoints: ['/api/test'],
+        signatureAlgorithm: 'ed25519',
+        publicKey: 'public-key'
+      }, 'server').secret).toBeUndefined();
+      
+      expect(() => validateAndMergeConfig({
+        endpoints: ['/api/test'],
+        secret: 'test-secret',
+        signatureAlgorithm: 'rsa' as any
+      })).toThrow('PoW Shield signature algorithm is not supported: rsa');
+    });
+    
+    it('should accept endpoint rules alongside plain endpoints', () => {
+      const mergedConfig = validateAndMergeConfig({
+        endpoints: ['/api/data', { pattern: '/api/submit', methods: ['POST'], difficulty: 8 }]
+      });
+      
+      expect(mergedConfig.endpoints).toHaveLength(2);
+      
+      expect(() => validateAndMergeConfig({
+        endpoints: [{ methods: ['POST'] } as any]
+      })).toThrow('PoW Shield endpoint rules require a pattern');
+    });
+    
+    it('should validate the PoW algorithm and scrypt parameters', () => {
+      expect(validateAndMergeConfig({ endpoints: ['/api/test'], algorithm: 'scrypt', scrypt: { N: 2048 } }).scrypt)
+        .toEqual({ N: 2048, r: 8, p: 1 });
+      
+      expect(() => validateAndMergeConfig({
+        endpoints: ['/api/test'],
+        algorithm: 'argon2' as any
+      })).toThrow('PoW Shield algorithm is not supported: argon2');
+      
+      expect(() => validateAndMergeConfig({
+        endpoints: ['/api/test'],
+        algorithm: 'scrypt',
+        scrypt: { N: 1000 }
+      })).toThrow('PoW Shield scrypt parameters are invalid: N must be a power of two greater than 1');
+      
+      expect(() => validateAndMergeConfig({
+        endpoints: ['/api/test'],
+        algorithm: 'scrypt',
+        scrypt: { N: 16384, r: 8 }
+      })).toThrow('PoW Shield scrypt parameters are invalid: N * r * p must be at most 65536');
+      
+      expect(() => validateAndMergeConfig({
+        endpoints: ['/api/test'],
+        algorithm: 'scrypt',
+        interstitial: { enabled: true }
+      })).toThrow('PoW Shield interstitial page requires the sha256 algorithm');
+    });
+    
+    it('should reject invalid regex patterns', () => {
+      expect(() => validateAndMergeConfig({
+        endpoints: [{ pattern: '/api/(unclosed', regex: true }]
+      })).toThrow('PoW Shield endpoint pattern is invalid: /api/(unclosed');
+      
+      expect(validateAndMergeConfig({
+        endpoints: ['/api/(literal)', '!/api/(literal)/health', /^\/v\d+$/]
+      }).endpoints).toHaveLength(3);
+    });
   });
 });
\ No newline at end of file
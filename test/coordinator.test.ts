@@ -0,0 +1,169 @@
+import { PowShieldCoordinator, CoordinatorClient } from '../src/coordinator';
+import type { DurableObjectStorageLike, DurableObjectNamespaceLike } from '../src/coordinator';
+
+// In-memory stand-in for Durable Object storage
+function createStorage() {
+  const entries = new Map<string, any>();
+  let alarm: number | null = null;
+  const storage: DurableObjectStorageLike = {
+    get: async (key: string) => entries.get(key),
+    put: async (key: string, value: any) => {
+      entries.set(key, value);
+    },
+    delete: async (keys: string[]) => keys.filter(key => entries.delete(key)).length,
+    list: async (options?: { prefix?: string }) => new Map(
+      Array.from(entries).filter(([key]) => key.startsWith(options?.prefix || ''))
+    ),
+    getAlarm: async () => alarm,
+    setAlarm: async (time: number) => {
+      alarm = time;
+    }
+  };
+  return { storage, entries, getAlarm: () => alarm };
+}
+
+// Namespace whose stubs call the coordinator directly
+function createNamespace(coordinator: PowShieldCoordinator): DurableObjectNamespaceLike {
+  return {
+    idFromName: (name: string) => name,
+    get: () => ({
+      fetch: (input: string | Request, init?: RequestInit) => coordinator.fetch(new Request(input, init))
+    })
+  };
+}
+
+describe('PowShieldCoordinator', () => {
+  const NOW = 1700000000000;
+  let storage: ReturnType<typeof createStorage>;
+  let client: CoordinatorClient;
+  
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    storage = createStorage();
+    client = new CoordinatorClient(createNamespace(new PowShieldCoordinator({ storage: storage.storage })));
+  });
+  
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+  
+  describe('nonces', () => {
+    it('should accept a nonce once', async () => {
+      expect(await client.checkNonce('1700000000:nonce', 30)).toBe(true);
+      expect(await client.checkNonce('1700000000:nonce', 30)).toBe(false);
+      expect(await client.checkNonce('1700000000:other', 30)).toBe(true);
+    });
+    
+    it('should accept a nonce again once it has expired', async () => {
+      await client.checkNonce('1700000000:nonce', 30);
+      
+      (Date.now as jest.Mock).mockReturnValue(NOW + 31000);
+      
+      expect(await client.checkNonce('1700000000:nonce', 30)).toBe(true);
+    });
+    
+    it('should set a cleanup alarm only when none is pending', async () => {
+      const getAlarm = jest.spyOn(storage.storage, 'getAlarm');
+      const setAlarm = jest.spyOn(storage.storage, 'setAlarm');
+      
+      await client.checkNonce('1700000000:first', 60);
+      await client.checkNonce('1700000000:second', 30);
+      await client.countRequest('192.168.1.1', { limit: 5, window: 60, algorithm: 'fixedWindow' });
+      
+      expect(storage.getAlarm()).toBe(NOW + 60000);
+      expect(getAlarm).toHaveBeenCalledTimes(1);
+      expect(setAlarm).toHaveBeenCalledTimes(1);
+    });
+  });
+  
+  describe('rate counters', () => {
+    const policy = { limit: 2, window: 60, algorithm: 'fixedWindow' as const };
+    
+    it('should count requests until the limit is reached', async () => {
+      expect(await client.countRequest('192.168.1.1', policy)).toEqual({ allowed: true, limit: 2, remaining: 1, resetAt: NOW + 60000 });
+      expect(await client.countRequest('192.168.1.1', policy)).toEqual({ allowed: true, limit: 2, remaining: 0, resetAt: NOW + 60000 });
+      expect(await client.countRequest('192.168.1.1', policy)).toEqual({
+        allowed: false,
+        limit: 2,
+        remaining: 0,
+        resetAt: NOW + 60000,
+        retryAfter: 60000
+      });
+      expect((await client.countRequest('192.168.1.2', policy)).allowed).toBe(true);
+    });
+    
+    it('should start a new window once the current one ends', async () => {
+      await client.countRequest('192.168.1.1', { ...policy, limit: 1 });
+      
+      (Date.now as jest.Mock).mockReturnValue(NOW + 60000);
+      
+      expect((await client.countRequest('192.168.1.1', { ...policy, limit: 1 })).allowed).toBe(true);
+    });
+  });
+  
+  describe('alarm', () => {
+    it('should delete expired entries and reschedule for the rest', async () => {
+      await client.checkNonce('1700000000:early', 30);
+      await client.checkNonce('1700000000:late', 90);
+      await client.countRequest('192.168.1.1', { limit: 5, window: 60, algorithm: 'fixedWindow' });
+      
+      (Date.now as jest.Mock).mockReturnValue(NOW + 30000);
+      await new PowShieldCoordinator({ storage: storage.storage }).alarm();
+      
+      expect(Array.from(storage.entries.keys()).sort()).toEqual(['nonce:1700000000:late', 'rate:192.168.1.1']);
+      expect(storage.getAlarm()).toBe(NOW + 60000);
+    });
+  });
+  
+  describe('CoordinatorClient', () => {
+    it('should shard rate counters by key and nonces by key hash', async () => {
+      const coordinator = new PowShieldCoordinator({ storage: storage.storage });
+      const names: string[] = [];
+      const sharded = new CoordinatorClient({
+        idFromName: (name: string) => {
+          names.push(name);
+          return name;
+        },
+        get: () => ({
+          fetch: (input: string | Request, init?: RequestInit) => coordinator.fetch(new Request(input, init))
+        })
+      });
+      const policy = { limit: 5, window: 60, algorithm: 'fixedWindow' as const };
+      
+      await sharded.countRequest('192.168.1.1', policy);
+      await sharded.countRequest('192.168.1.2', policy);
+      await sharded.checkNonce('1700000000:nonce', 30);
+      await sharded.checkNonce('1700000000:nonce', 30);
+      
+      expect(names.slice(0, 2)).toEqual(['pow-shield:rate:192.168.1.1', 'pow-shield:rate:192.168.1.2']);
+      expect(names[2]).toMatch(/^pow-shield:nonce:[0-9a-f]{2}$/);
+      expect(names[3]).toBe(names[2]);
+    });
+  });
+  
+  describe('fetch', () => {
+    const coordinator = () => new PowShieldCoordinator({ storage: storage.storage });
+    
+    it('should reject malformed calls', async () => {
+      const post = (path: string, body: string) => coordinator().fetch(
+        new Request(`https://pow-shield${path}`, { method: 'POST', body })
+      );
+      
+      expect((await coordinator().fetch(new Request('https://pow-shield/nonce'))).status).toBe(405);
+      expect((await post('/nonce', 'not json')).status).toBe(400);
+      expect((await post('/nonce', JSON.stringify({ key: 'nonce' }))).status).toBe(400);
+      expect((await post('/rate', JSON.stringify({ key: 'ip', policy: { limit: 5 } }))).status).toBe(400);
+      expect((await post('/unknown', '{}')).status).toBe(404);
+    });
+    
+    it('should surface failed calls as errors in the client', async () => {
+      const failing = new CoordinatorClient({
+        idFromName: (name: string) => name,
+        get: () => ({ fetch: async () => new Response('error', { status: 500 }) })
+      });
+      
+      await expect(failing.countRequest('192.168.1.1', { limit: 5, window: 60, algorithm: 'fixedWindow' }))
+        .rejects.toThrow('Durable Object request to /rate failed: 500');
+    });
+  });
+});
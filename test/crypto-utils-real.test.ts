@@ -22,6 +22,26 @@ describe('CryptoUtils', () => {
     });
   });
 
+  describe('sha256Bytes', () => {
+    it('should hash raw bytes like the equivalent string', () => {
+      const bytes = new TextEncoder().encode('test-data');
+      
+      expect(CryptoUtils.sha256Bytes(bytes)).toBe(CryptoUtils.sha256('test-data'));
+    });
+    
+    it('should hash an empty body', () => {
+      expect(CryptoUtils.sha256Bytes(new Uint8Array(0)))
+        .toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    });
+    
+    it('should hash bytes that are not UTF-8 text, in any length', async () => {
+      const { createHash } = await import('node:crypto');
+      const bytes = Uint8Array.from([0x00, 0xff, 0x80, 0x7f, 0xc3, 0x28, 0x01]);
+      
+      expect(CryptoUtils.sha256Bytes(bytes)).toBe(createHash('sha256').update(bytes).digest('hex'));
+    });
+  });
+
   describe('hmac', () => {
     it('should generate valid HMAC signatures', () => {
       const data = 'test-data';
@@ -51,6 +71,33 @@ describe('CryptoUtils', () => {
     });
   });
 
+  describe('timingSafeEqual', () => {
+    it('should compare hex digests', () => {
+      const hmac = CryptoUtils.hmac('test-data', 'test-secret');
+      
+      expect(CryptoUtils.timingSafeEqual(hmac, hmac)).toBe(true);
+      expect(CryptoUtils.timingSafeEqual(hmac.slice(0, -1) + (hmac.endsWith('0') ? '1' : '0'), hmac)).toBe(false);
+      expect(CryptoUtils.timingSafeEqual('', '')).toBe(true);
+    });
+    
+    it('should ignore the case of hex digits', () => {
+      expect(CryptoUtils.timingSafeEqual('ABCDEF0123', 'abcdef0123')).toBe(true);
+    });
+    
+    it('should reject values of another length', () => {
+      expect(CryptoUtils.timingSafeEqual('abcd', 'abcdef')).toBe(false);
+      expect(CryptoUtils.timingSafeEqual('abcdef', 'abcd')).toBe(false);
+      expect(CryptoUtils.timingSafeEqual('', 'abcd')).toBe(false);
+      // Trailing NUL characters must not pass for the missing characters
+      expect(CryptoUtils.timingSafeEqual('ab', 'ab\u0000')).toBe(false);
+    });
+    
+    it('should reject values that are not strings', () => {
+      expect(CryptoUtils.timingSafeEqual(undefined as any, 'abcd')).toBe(false);
+      expect(CryptoUtils.timingSafeEqual(['abcd'] as any, 'abcd')).toBe(false);
+    });
+  });
+  
   describe('generateNonce', () => {
     it('should generate unique nonces of correct length', () => {
       const nonce1 = CryptoUtils.generateNonce();
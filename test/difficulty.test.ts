@@ -0,0 +1,77 @@
+import { difficultyTarget, meetsTarget, formatDifficulty, parseDifficulty } from '../src/utils/difficulty';
+import { hasLeadingZeroBits } from '../src/utils/hash';
+import { CryptoUtils } from '../src/utils/crypto';
+
+describe('Difficulty', () => {
+  describe('difficultyTarget', () => {
+    it('should match leading zero bits for whole difficulties', () => {
+      expect(difficultyTarget(0)).toBe(1n << 256n);
+      expect(difficultyTarget(8)).toBe(1n << 248n);
+      expect(difficultyTarget(256)).toBe(1n);
+    });
+    
+    it('should fall between whole difficulties for fractional ones', () => {
+      const target = difficultyTarget(14.5);
+      
+      expect(target < difficultyTarget(14)).toBe(true);
+      expect(target > difficultyTarget(15)).toBe(true);
+      // 2^(256 - 14.5) = 2^241 * sqrt(2)
+      expect(Number(target / (1n << 189n)) / 2 ** 52).toBeCloseTo(Math.SQRT2, 12);
+    });
+    
+    it('should clamp out-of-range difficulties', () => {
+      expect(difficultyTarget(-1)).toBe(difficultyTarget(0));
+      expect(difficultyTarget(300)).toBe(difficultyTarget(256));
+    });
+  });
+  
+  describe('meetsTarget', () => {
+    const digest = (hex: string) => Uint8Array.from(hex.padEnd(64, '0').match(/../g)!.map(byte => parseInt(byte, 16)));
+    
+    it('should compare the digest as a big-endian integer', () => {
+      // Target for 1.5 bits is 2^254.5, i.e. just above 0x5a82 followed by zeros
+      expect(meetsTarget(digest('5a82'), 1.5)).toBe(true);
+      expect(meetsTarget(digest('5a83'), 1.5)).toBe(false);
+      expect(meetsTarget(digest('c0'), 1.5)).toBe(false);
+    });
+    
+    it('should reject digests that are not 32 bytes', () => {
+      expect(meetsTarget(new Uint8Array(16), 1.5)).toBe(false);
+    });
+    
+    it('should be used by both leading zero checks for fractional difficulties', () => {
+      expect(hasLeadingZeroBits(digest('5a82'), 1.5)).toBe(true);
+      expect(hasLeadingZeroBits(digest('5a83'), 1.5)).toBe(false);
+      expect(CryptoUtils.hasLeadingZeros('5a82'.padEnd(64, '0'), 1.5)).toBe(true);
+      expect(CryptoUtils.hasLeadingZeros('5a83'.padEnd(64, '0'), 1.5)).toBe(false);
+      expect(CryptoUtils.hasLeadingZeros('0000', 1.5)).toBe(false);  // Needs the whole hash
+    });
+    
+    it('should agree with leading zero bits for whole difficulties', () => {
+      for (let i = 0; i < 200; i++) {
+        const hash = CryptoUtils.sha256(`input-${i}`);
+        for (const difficulty of [1, 2, 3, 4, 8]) {
+          expect(meetsTarget(digest(hash), difficulty)).toBe(CryptoUtils.hasLeadingZeros(hash, difficulty));
+        }
+      }
+    });
+  });
+  
+  describe('formatDifficulty / parseDifficulty', () => {
+    it('should write whole difficulties as integers', () => {
+      expect(formatDifficulty(4)).toBe('4');
+      expect(formatDifficulty(14.5)).toBe('14.5');
+      expect(formatDifficulty(14.12345)).toBe('14.123');
+    });
+    
+    it('should parse decimals and reject anything else', () => {
+      expect(parseDifficulty('14.5')).toBe(14.5);
+      expect(parseDifficulty('4')).toBe(4);
+      expect(parseDifficulty(null)).toBeNull();
+      expect(parseDifficulty('')).toBeNull();
+      expect(parseDifficulty('-1')).toBeNull();
+      expect(parseDifficulty('4abc')).toBeNull();
+      expect(parseDifficulty('1e3')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import {
+  PowErrorCode,
+  PowError,
+  PowMissingHeadersError,
+  PowExpiredError,
+  PowInvalidError,
+  PowDifficultyError,
+  PowReplayError,
+  PowHmacError,
+  PowRateLimitError,
+  createPowError,
+  parsePowError
+} from '../src/errors';
+
+describe('Errors', () => {
+  describe('createPowError', () => {
+    it.each([
+      [PowErrorCode.MissingHeaders, PowMissingHeadersError],
+      [PowErrorCode.Expired, PowExpiredError],
+      [PowErrorCode.ChallengeInvalid, PowExpiredError],
+      [PowErrorCode.InvalidStamp, PowInvalidError],
+      [PowErrorCode.UnsupportedAlgorithm, PowInvalidError],
+      [PowErrorCode.Difficulty, PowDifficultyError],
+      [PowErrorCode.Replay, PowReplayError],
+      [PowErrorCode.HmacMissing, PowHmacError],
+      [PowErrorCode.HmacInvalid, PowHmacError],
+      [PowErrorCode.HmacUnsupported, PowHmacError],
+      [PowErrorCode.ContentDigestMismatch, PowHmacError],
+      [PowErrorCode.RateLimited, PowRateLimitError]
+    ])('should map %s to its error class', (code, errorClass) => {
+      const error = createPowError({ code, message: 'test message' }, 403);
+      
+      expect(error).toBeInstanceOf(errorClass);
+      expect(error).toBeInstanceOf(PowError);
+      expect(error.code).toBe(code);
+      expect(error.message).toBe('test message');
+      expect(error.status).toBe(403);
+      expect(error.name).toBe(errorClass.name);
+    });
+    
+    it('should read the advertised difficulty', () => {
+      const error = createPowError(
+        { code: PowErrorCode.Difficulty, message: 'Insufficient PoW difficulty' },
+        403,
+        new Headers({ 'X-Pow-Difficulty': '14.5' })
+      );
+      
+      expect((error as PowDifficultyError).difficulty).toBe(14.5);
+    });
+  });
+  
+  describe('parsePowError', () => {
+    const jsonResponse = (body: unknown, status: number) => new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' }
+    });
+    
+    it('should parse JSON error responses and leave the body readable', async () => {
+      const response = jsonResponse({ code: 'POW_EXPIRED', message: 'Timestamp expired or invalid' }, 403);
+      const error = await parsePowError(response);
+      
+      expect(error).toBeInstanceOf(PowExpiredError);
+      expect(error!.message).toBe('Timestamp expired or invalid');
+      expect(await response.json()).toEqual({ code: 'POW_EXPIRED', message: 'Timestamp expired or invalid' });
+    });
+    
+    it('should ignore other responses', async () => {
+      expect(await parsePowError(jsonResponse({ success: true }, 200))).toBeNull();
+      expect(await parsePowError(jsonResponse({ error: 'not found' }, 404))).toBeNull();
+      expect(await parsePowError(jsonResponse({ code: 'OTHER', message: 'x' }, 400))).toBeNull();
+      expect(await parsePowError(new Response('Nonce already used', { status: 403 }))).toBeNull();
+      expect(await parsePowError(new Response('{', { status: 403, headers: { 'Content-Type': 'application/json' } }))).toBeNull();
+    });
+  });
+});
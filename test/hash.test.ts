@@ -0,0 +1,70 @@
+import { createHashBackend, getHashBackend, hasLeadingZeroBits, toHex } from '../src/utils/hash';
+import type { HashBackend, HashBackendName } from '../src/utils/hash';
+import { CryptoUtils } from '../src/utils/crypto';
+
+describe('Hash backends', () => {
+  const names: HashBackendName[] = ['node', 'subtle', 'crypto-js'];
+  const inputs = ['', 'test-data', '/api/data:1700000000:nonce:context', 'héllo ✓', 'x'.repeat(1000)];
+  
+  it.each(names)('should produce the same digests as crypto-js with %s', async name => {
+    const backend = await createHashBackend(name);
+    
+    expect(backend).not.toBeNull();
+    const digests = await backend!.digest(inputs);
+    expect(digests.map(toHex)).toEqual(inputs.map(input => CryptoUtils.sha256(input)));
+  });
+  
+  it('should prefer node:crypto in Node', async () => {
+    expect((await getHashBackend()).name).toBe('node');
+  });
+  
+  it('should hash batches through CryptoUtils', async () => {
+    expect(await CryptoUtils.sha256Batch(inputs)).toEqual(inputs.map(input => CryptoUtils.sha256(input)));
+  });
+  
+  describe('hasLeadingZeroBits', () => {
+    it('should check whole and partial bytes', () => {
+      const digest = new Uint8Array([0x00, 0x00, 0x1f, 0xff]);
+      
+      expect(hasLeadingZeroBits(digest, 0)).toBe(true);
+      expect(hasLeadingZeroBits(digest, 16)).toBe(true);
+      expect(hasLeadingZeroBits(digest, 19)).toBe(true);
+      expect(hasLeadingZeroBits(digest, 20)).toBe(false);
+      expect(hasLeadingZeroBits(digest, 33)).toBe(false);
+    });
+    
+    it('should agree with hasLeadingZeros on hex digests', async () => {
+      const backend = await getHashBackend();
+      const digests = await backend.digest(Array.from({ length: 200 }, (_, i) => `input-${i}`));
+      
+      for (const digest of digests) {
+        for (const difficulty of [1, 2, 3, 4, 5, 8]) {
+          expect(hasLeadingZeroBits(digest, difficulty)).toBe(CryptoUtils.hasLeadingZeros(toHex(digest), difficulty));
+        }
+      }
+    });
+  });
+  
+  describe('benchmark', () => {
+    // Hashes per millisecond over a fixed number of stamp-sized inputs
+    const measure = async (backend: HashBackend): Promise<number> => {
+      const batch = Array.from({ length: 1000 }, (_, i) => `/api/data:1700000000:${i.toString(16).padStart(32, '0')}:context`);
+      const start = performance.now();
+      for (let i = 0; i < 20; i++) {
+        const digests = await backend.digest(batch);
+        digests.forEach(digest => hasLeadingZeroBits(digest, 16));
+      }
+      return (batch.length * 20) / (performance.now() - start);
+    };
+    
+    it('should hash faster with node:crypto than with crypto-js', async () => {
+      const rates: Record<string, number> = {};
+      for (const name of names) {
+        rates[name] = await measure((await createHashBackend(name))!);
+      }
+      
+      expect(rates['node']).toBeGreaterThan(rates['crypto-js']);
+      Object.values(rates).forEach(rate => expect(rate).toBeGreaterThan(0));
+    });
+  });
+});
@@ -0,0 +1,363 @@
+import { PowClient } from '../src/client';
+import { PowCloudflare } from '../src/cloudflare';
+import { PowServer } from '../src/server';
+import { CryptoUtils } from '../src/utils/crypto';
+
+// Do NOT mock CryptoUtils - stamps are really solved and verified
+
+describe('PoW Shield Integration (real crypto)', () => {
+  let originalFetch: any;
+  
+  beforeEach(() => {
+    originalFetch = global.fetch;
+  });
+  
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+  
+  /**
+   * Routes the client's fetch calls through the Worker, capturing what reaches the origin
+   */
+  const connect = (client: PowClient, cloudflare: PowCloudflare) => {
+    const originRequests: Request[] = [];
+    global.fetch = jest.fn(async (input: any, init?: any) => {
+      return cloudflare.protect(new Request(input, init), async request => {
+        originRequests.push(request);
+        return new Response('ok');
+      });
+    }) as any;
+    return { client, originRequests };
+  };
+  
+  /**
+   * Runs a forwarded request through the Express middleware
+   */
+  const runExpress = async (server: PowServer, request: Request, overrides: Record<string, any> = {}) => {
+    const url = new URL(request.url);
+    const headers: Record<string, string> = {};
+    request.headers.forEach((value, key) => {
+      headers[key] = value;
+    });
+    const req = {
+      path: url.pathname,
+      originalUrl: url.pathname + url.search,
+      method: request.method,
+      headers,
+      rawBody: request.body ? new Uint8Array(await request.arrayBuffer()) : undefined,
+      ...overrides
+    };
+    const res = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis()
+    };
+    const next = jest.fn();
+    await server.expressMiddleware()(req, res, next);
+    return { res, next };
+  };
+  
+  describe('origin signatures', () => {
+    const config = {
+      endpoints: ['/api/*'],
+      secret: 'test-secret',
+      difficulty: 4
+    };
+    
+    const signedRequest = async () => {
+      const client = new PowClient(config);
+      const cloudflare = new PowCloudflare(config);
+      const headers = await client.getHeaders('/api/submit');
+      const result = await cloudflare.handleRequest(new Request('https://example.com/api/submit?x=1', {
+        method: 'POST',
+        headers,
+        body: 'payload'
+      }));
+      if (result.action !== 'forward') throw new Error('Expected the Worker to forward the request');
+      return result.request;
+    };
+    
+    it('should accept v2 signatures from the Worker', async () => {
+      const { next } = await runExpress(new PowServer(config), await signedRequest());
+      
+      expect(next).toHaveBeenCalledTimes(1);
+    });
+    
+    it('should reject signed headers replayed against another path, method or body', async () => {
+      const server = new PowServer(config);
+      
+      const otherPath = await runExpress(server, await signedRequest(), { path: '/api/admin', originalUrl: '/api/admin?x=1' });
+      expect(otherPath.res.status).toHaveBeenCalledWith(403);
+      
+      const otherMethod = await runExpress(server, await signedRequest(), { method: 'DELETE' });
+      expect(otherMethod.res.status).toHaveBeenCalledWith(403);
+      
+      const otherBody = await runExpress(server, await signedRequest(), { rawBody: 'other payload' });
+      expect(otherBody.res.status).toHaveBeenCalledWith(403);
+    });
+  });
+  
+  describe('asymmetric origin signatures', () => {
+    let config: any;
+    
+    beforeAll(async () => {
+      const keys = await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']) as CryptoKeyPair;
+      config = {
+        endpoints: ['/api/*'],
+        difficulty: 4,
+        signatureAlgorithm: 'ed25519',
+        privateKey: await crypto.subtle.exportKey('jwk', keys.privateKey),
+        publicKey: await crypto.subtle.exportKey('jwk', keys.publicKey)
+      };
+    });
+    
+    const signedRequest = async () => {
+      const client = new PowClient(config);
+      const cloudflare = new PowCloudflare(config);
+      const headers = await client.getHeaders('/api/submit');
+      const result = await cloudflare.handleRequest(new Request('https://example.com/api/submit', {
+        method: 'POST',
+        headers,
+        body: 'payload'
+      }));
+      if (result.action !== 'forward') throw new Error('Expected the Worker to forward the request');
+      return result.request;
+    };
+    
+    it('should accept requests signed with the private key using only the public key', async () => {
+      const { privateKey, ...originConfig } = config;
+      const request = await signedRequest();
+      
+      expect(request.headers.has('X-HMAC')).toBe(false);
+      const { next } = await runExpress(new PowServer(originConfig), request);
+      expect(next).toHaveBeenCalledTimes(1);
+    });
+    
+    it('should reject tampered requests and HMACs forged with a shared secret', async () => {
+      const server = new PowServer(config);
+      
+      const otherBody = await runExpress(server, await signedRequest(), { rawBody: 'other payload' });
+      expect(otherBody.res.status).toHaveBeenCalledWith(403);
+      
+      const request = await signedRequest();
+      request.headers.delete('X-Signature');
+      request.headers.set('X-HMAC', 'forged');
+      const forged = await runExpress(server, request);
+      expect(forged.res.json).toHaveBeenCalledWith({ code: 'HMAC_MISSING', message: 'Missing HMAC signature' });
+    });
+  });
+  
+  describe('request binding', () => {
+    const config = {
+      endpoints: ['/api/*'],
+      secret: 'test-secret',
+      difficulty: 4,
+      stampBinding: 'request' as const
+    };
+    
+    it('should accept requests whose method, query and body match the stamp', async () => {
+      const { client, originRequests } = connect(new PowClient(config), new PowCloudflare(config));
+      
+      const response = await client.fetch('https://example.com/api/submit?b=2&a=1', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ amount: 10 })
+      });
+      
+      expect(response.status).toBe(200);
+      expect(originRequests).toHaveLength(1);
+      expect(originRequests[0].headers.get('X-HMAC')).toBeTruthy();
+      
+      // The origin still receives the body
+      expect(await originRequests[0].json()).toEqual({ amount: 10 });
+    });
+    
+    it('should keep the content type of encoded bodies', async () => {
+      const { client, originRequests } = connect(new PowClient(config), new PowCloudflare(config));
+      
+      const response = await client.fetch('https://example.com/api/form', {
+        method: 'POST',
+        body: new URLSearchParams({ name: 'value' })
+      });
+      
+      expect(response.status).toBe(200);
+      expect(originRequests[0].headers.get('Content-Type')).toContain('application/x-www-form-urlencoded');
+      expect(await originRequests[0].text()).toBe('name=value');
+    });
+    
+    it('should reject a stamp reused with a different body, query or method', async () => {
+      const client = new PowClient(config);
+      const cloudflare = new PowCloudflare(config);
+      
+      // Solve for a GET without body, then reuse the headers elsewhere
+      const headers = await client.getHeaders('/api/submit', {
+        request: {
+          method: 'GET',
+          query: '',
+          bodyHash: 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+        }
+      });
+      
+      const tamperedBody = await cloudflare.handleRequest(new Request('https://example.com/api/submit', {
+        method: 'POST',
+        headers,
+        body: 'different body'
+      }));
+      expect(tamperedBody.action).toBe('reject');
+      
+      const tamperedQuery = await cloudflare.handleRequest(new Request('https://example.com/api/submit?admin=1', { headers }));
+      expect(tamperedQuery.action).toBe('reject');
+      
+      // The untouched request still passes
+      const original = await cloudflare.handleRequest(new Request('https://example.com/api/submit', { headers }));
+      expect(original.action).toBe('forward');
+    });
+  });
+  
+  describe('access tokens', () => {
+    const config = {
+      endpoints: ['/api/*'],
+      secret: 'test-secret',
+      difficulty: 4,
+      token: { enabled: true, maxRequests: 2 }
+    };
+    
+    it('should solve once and send the token for the following requests', async () => {
+      const { client, originRequests } = connect(new PowClient(config), new PowCloudflare(config));
+      
+      for (let i = 0; i < 4; i++) {
+        expect((await client.fetch('https://example.com/api/data')).status).toBe(200);
+      }
+      
+      // Solved, then two requests on the token's budget, then solved again
+      expect(originRequests.map(request => request.headers.has('X-Stamp'))).toEqual([true, false, false, true]);
+      expect(originRequests[1].headers.get('X-HMAC')).toBeTruthy();
+    });
+    
+    it('should solve again when the Worker rejects the token', async () => {
+      const cloudflare = new PowCloudflare(config);
+      const { client, originRequests } = connect(new PowClient(config), cloudflare);
+      
+      await client.fetch('https://example.com/api/data');
+      
+      // Tokens do not survive a Worker with another secret
+      const { client: same, originRequests: rotated } = connect(client, new PowCloudflare({ ...config, secret: 'new-secret' }));
+      const response = await same.fetch('https://example.com/api/data');
+      
+      expect(response.status).toBe(200);
+      expect(originRequests).toHaveLength(1);
+      expect(rotated).toHaveLength(1);
+      expect(rotated[0].headers.has('X-Stamp')).toBe(true);
+    });
+  });
+  
+  describe('endpoint rules', () => {
+    const config = {
+      endpoints: [
+        { pattern: '/api/submit', methods: ['POST'], difficulty: 8 },
+        { pattern: '/api/*', difficulty: 2 }
+      ],
+      secret: 'test-secret',
+      difficulty: 4
+    };
+    
+    it('should solve and verify each request at the difficulty of its rule', async () => {
+      const { client, originRequests } = connect(new PowClient(config), new PowCloudflare(config));
+      const hasLeadingZeros = jest.spyOn(CryptoUtils, 'hasLeadingZeros');
+      
+      const post = await client.fetch('https://example.com/api/submit', { method: 'POST', body: 'payload' });
+      const get = await client.fetch('https://example.com/api/submit');
+      
+      expect(post.status).toBe(200);
+      expect(get.status).toBe(200);
+      expect(originRequests).toHaveLength(2);
+      
+      // The Worker checked each stamp at the rule's difficulty
+      const checked = hasLeadingZeros.mock.calls.map(([, difficulty]) => difficulty);
+      expect(checked).toContain(8);
+      expect(checked).toContain(2);
+      hasLeadingZeros.mockRestore();
+    });
+    
+    it('should reject stamps solved for a cheaper rule', async () => {
+      const cloudflare = new PowCloudflare(config);
+      const client = new PowClient(config);
+      
+      // Skip the rare cheap stamp that happens to meet the stricter rule too
+      let headers: Record<string, string>;
+      do {
+        headers = await client.getHeaders('/api/submit', { method: 'GET' });
+      } while (CryptoUtils.hasLeadingZeros(headers['X-Stamp'], 8));
+      
+      const result = await cloudflare.handleRequest(new Request('https://example.com/api/submit', {
+        method: 'POST',
+        headers
+      }));
+      
+      expect(result.action === 'reject' && result.response.status).toBe(403);
+    });
+  });
+  
+  describe('memory-hard algorithm', () => {
+    const config = {
+      endpoints: ['/api/*'],
+      secret: 'test-secret',
+      difficulty: 2,
+      algorithm: 'scrypt' as const,
+      scrypt: { N: 16, r: 1, p: 1 }
+    };
+    
+    it('should solve and verify scrypt stamps', async () => {
+      const { client, originRequests } = connect(new PowClient(config), new PowCloudflare(config));
+      
+      const response = await client.fetch('https://example.com/api/data');
+      
+      expect(response.status).toBe(200);
+      expect(originRequests).toHaveLength(1);
+      expect(originRequests[0].headers.get('X-Pow-Algorithm')).toBe('scrypt');
+    });
+    
+    it('should reject stamps solved with another algorithm', async () => {
+      const cloudflare = new PowCloudflare(config);
+      const headers = await new PowClient({ ...config, algorithm: 'sha256' }).getHeaders('/api/data');
+      
+      const result = await cloudflare.handleRequest(new Request('https://example.com/api/data', { headers }));
+      
+      expect(result.action === 'reject' && result.response.status).toBe(400);
+      expect(result.action === 'reject' && await result.response.json()).toEqual({
+        code: 'POW_UNSUPPORTED_ALGORITHM',
+        message: 'Unsupported PoW algorithm'
+      });
+    });
+    
+    it('should reject scrypt stamps computed with other cost parameters', async () => {
+      const cloudflare = new PowCloudflare(config);
+      const headers = await new PowClient({ ...config, scrypt: { N: 32 } }).getHeaders('/api/data');
+      
+      const result = await cloudflare.handleRequest(new Request('https://example.com/api/data', { headers }));
+      
+      expect(result.action === 'reject' && result.response.status).toBe(403);
+    });
+    
+    it('should reject malformed and too easy stamps without computing scrypt', async () => {
+      const cloudflare = new PowCloudflare(config);
+      const headers = await new PowClient(config).getHeaders('/api/data');
+      const scrypt = jest.spyOn(CryptoUtils, 'scrypt');
+      
+      const malformed = await cloudflare.handleRequest(new Request('https://example.com/api/data', {
+        headers: { ...headers, 'X-Stamp': 'not-a-stamp' }
+      }));
+      const tooEasy = await cloudflare.handleRequest(new Request('https://example.com/api/data', {
+        headers: { ...headers, 'X-Stamp': 'f'.repeat(64) }
+      }));
+      const badNonce = await cloudflare.handleRequest(new Request('https://example.com/api/data', {
+        headers: { ...headers, 'X-Nonce': 'x'.repeat(129) }
+      }));
+      
+      expect(malformed.action === 'reject' && await malformed.response.json()).toEqual({ code: 'POW_INVALID', message: 'Invalid PoW stamp' });
+      expect(tooEasy.action === 'reject' && await tooEasy.response.json()).toEqual({ code: 'POW_DIFFICULTY', message: 'Insufficient PoW difficulty' });
+      expect(badNonce.action === 'reject' && await badNonce.response.json()).toEqual({ code: 'POW_INVALID', message: 'Malformed PoW nonce' });
+      expect(scrypt).not.toHaveBeenCalled();
+      scrypt.mockRestore();
+    });
+  });
+});
@@ -6,8 +6,11 @@ import { CryptoUtils } from '../src/utils/crypto';
 jest.mock('../src/utils/crypto', () => ({
   CryptoUtils: {
     sha256: jest.fn().mockImplementation(data => `mocked-hash-${data}`),
+    sha256Batch: jest.fn().mockImplementation(async (inputs: string[]) => inputs.map(data => `mocked-hash-${data}`)),
+    sha256Bytes: jest.fn().mockReturnValue('mocked-digest'),
     hmac: jest.fn().mockImplementation((data, secret) => 'valid-hmac-signature'),
     hasLeadingZeros: jest.fn().mockReturnValue(true),
+    timingSafeEqual: jest.fn().mockImplementation((actual, expected) => actual === expected),
     generateNonce: jest.fn().mockReturnValue('mocked-nonce'),
     generateContext: jest.fn().mockReturnValue('mocked-context')
   }
@@ -56,60 +59,79 @@ class MockResponse {
   }
 }
   
-it('should successfully validate a request through the entire flow', async () => {
-  // Clear mocks and configure HMAC
-  jest.clearAllMocks();
-  (CryptoUtils.hmac as jest.Mock).mockImplementation(() => 'valid-hmac-signature');
-  
-  // Step 1: Generate PoW headers from client
-  const clientHeaders = await client.getHeaders('/api/protected');
-  
-  // Create a mock request to Cloudflare with these headers
-  const mockRequest = new Request('https://example.com/api/protected', {
-    method: 'GET',
-    headers: clientHeaders as any
-  });
-  
-  // Step 2: Process the request through Cloudflare
-  const cloudflareResponse = await cloudflare.handleRequest(mockRequest);
-  
-  // Cloudflare should not return a response (pass to origin)
-  expect(cloudflareResponse).toBeNull();
-  
-  // Extract the modified request with HMAC header
-  const modifiedRequestHeaders = (mockRequest as any).headers;
-  
-  // Step 3: Create an Express-like request object for the server
-  const serverRequest = {
-    path: '/api/protected',
-    headers: {} as Record<string, string> // Add type annotation
+  /**
+   * Converts a forwarded Fetch API request into an Express-like request
+   */
+  const toServerRequest = (request: Request) => {
+    const headers: Record<string, string> = {};
+    request.headers.forEach((value: string, key: string) => {
+      headers[key.toLowerCase()] = value;
+    });
+    return {
+      path: new URL(request.url).pathname,
+      method: request.method,
+      headers
+    };
   };
   
-  // FIXED: Create all headers at once with proper typing
-  const headerObj: Record<string, string> = {}; // Add type annotation
-  modifiedRequestHeaders.forEach((value: string, key: string) => {
-    headerObj[key.toLowerCase()] = value;
+  it('should successfully validate a request through the entire flow', async () => {
+    // Clear mocks and configure HMAC
+    jest.clearAllMocks();
+    (CryptoUtils.hmac as jest.Mock).mockImplementation(() => 'valid-hmac-signature');
+    
+    // Step 1: Generate PoW headers from client
+    const clientHeaders = await client.getHeaders('/api/protected');
+    
+    // Create a mock request to Cloudflare with these headers
+    const mockRequest = new Request('https://example.com/api/protected', {
+      method: 'GET',
+      headers: clientHeaders as any
+    });
+    
+    // Step 2: Process the request through Cloudflare
+    const cloudflareResult = await cloudflare.handleRequest(mockRequest);
+    
+    // Cloudflare should hand back the signed request for the origin
+    expect(cloudflareResult.action).toBe('forward');
+    if (cloudflareResult.action !== 'forward') return;
+    expect(cloudflareResult.request.headers.get('X-HMAC')).toBe('valid-hmac-signature');
+    
+    // Step 3: Pass the forwarded request to the server middleware
+    const serverRequest = toServerRequest(cloudflareResult.request);
+    const serverResponse = new MockResponse();
+    const nextFunction = jest.fn();
+    
+    const expressMiddleware = server.expressMiddleware();
+    await expressMiddleware(serverRequest, serverResponse, nextFunction);
+    
+    // Verify that next() was called (request was valid)
+    expect(nextFunction).toHaveBeenCalled();
+    expect(serverResponse.statusCode).toBe(200);
   });
-  serverRequest.headers = headerObj;
-  
-  // Now TypeScript will allow indexing
-  serverRequest.headers['x-hmac'] = 'valid-hmac-signature';
-  
-  // For debugging - uncomment to see headers
-  // console.log('Server request headers:', serverRequest.headers);
-  
-  // Create mock Express response and next function
-  const serverResponse = new MockResponse();
-  const nextFunction = jest.fn();
-  
-  // Process the request through the server middleware
-  const expressMiddleware = server.expressMiddleware();
-  expressMiddleware(serverRequest, serverResponse, nextFunction);
   
-  // Verify that next() was called (request was valid)
-  expect(nextFunction).toHaveBeenCalled();
-  expect(serverResponse.statusCode).toBe(200);
-});
+  it('should reach the origin through protect()', async () => {
+    jest.clearAllMocks();
+    (CryptoUtils.hmac as jest.Mock).mockImplementation(() => 'valid-hmac-signature');
+    (CryptoUtils.generateNonce as jest.Mock).mockReturnValueOnce('protect-nonce');
+    
+    const clientHeaders = await client.getHeaders('/api/protected');
+    const nextFunction = jest.fn();
+    
+    // Origin is the Express middleware behind the worker
+    const originFetch = async (request: Request) => {
+      const serverResponse = new MockResponse();
+      await server.expressMiddleware()(toServerRequest(request), serverResponse, nextFunction);
+      return new Response(serverResponse.body, { status: serverResponse.statusCode });
+    };
+    
+    const response = await cloudflare.protect(new Request('https://example.com/api/protected', {
+      method: 'GET',
+      headers: clientHeaders as any
+    }), originFetch);
+    
+    expect(response.status).toBe(200);
+    expect(nextFunction).toHaveBeenCalled();
+  });
   
   it('should reject a request with tampered headers', async () => {
     // Step 1: Generate PoW headers from client
@@ -129,8 +151,8 @@ it('should successfully validate a request through the entire flow', async () =>
     const cloudflareResponse = await cloudflare.handleRequest(mockRequest);
     
     // Cloudflare should return a 403 response
-    expect(cloudflareResponse).toBeInstanceOf(Response);
-    expect(cloudflareResponse?.status).toBe(403);
+    expect(cloudflareResponse.action).toBe('reject');
+    expect(cloudflareResponse.action === 'reject' && cloudflareResponse.response.status).toBe(403);
   });
   
   it('should reject requests to protected endpoints without PoW headers', async () => {
@@ -143,8 +165,8 @@ it('should successfully validate a request through the entire flow', async () =>
     const cloudflareResponse = await cloudflare.handleRequest(mockRequest);
     
     // Cloudflare should return a 400 response
-    expect(cloudflareResponse).toBeInstanceOf(Response);
-    expect(cloudflareResponse?.status).toBe(400);
+    expect(cloudflareResponse.action).toBe('reject');
+    expect(cloudflareResponse.action === 'reject' && cloudflareResponse.response.status).toBe(400);
   });
   
   it('should pass through requests to non-protected endpoints', async () => {
@@ -156,8 +178,8 @@ it('should successfully validate a request through the entire flow', async () =>
     // Process the request through Cloudflare
     const cloudflareResponse = await cloudflare.handleRequest(mockRequest);
     
-    // Cloudflare should not return a response (pass to origin)
-    expect(cloudflareResponse).toBeNull();
+    // Cloudflare should forward the request unchanged
+    expect(cloudflareResponse.action).toBe('forward');
     
     // Server should also pass it through
     const serverRequest = {
@@ -169,7 +191,7 @@ it('should successfully validate a request through the entire flow', async () =>
     const nextFunction = jest.fn();
     
     const expressMiddleware = server.expressMiddleware();
-    expressMiddleware(serverRequest, serverResponse, nextFunction);
+    await expressMiddleware(serverRequest, serverResponse, nextFunction);
     
     // Verify that next() was called
     expect(nextFunction).toHaveBeenCalled();
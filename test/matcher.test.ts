@@ -0,0 +1,86 @@
+import { compilePattern, matchRoute } from '../src/utils/matcher';
+
+describe('Route matcher', () => {
+  describe('path patterns', () => {
+    it('should match exact paths only', () => {
+      expect(matchRoute('/api/data', '/api/data')).toEqual({});
+      expect(matchRoute('/api/data/1', '/api/data')).toBeNull();
+      expect(matchRoute('/api/dat', '/api/data')).toBeNull();
+    });
+    
+    it('should keep trailing * as a prefix match', () => {
+      expect(matchRoute('/api/data', '/api/*')).toEqual({});
+      expect(matchRoute('/api/data/1', '/api/*')).toEqual({});
+      expect(matchRoute('/api/', '/api/*')).toEqual({});
+      expect(matchRoute('/other', '/api/*')).toBeNull();
+    });
+    
+    it('should capture named params from one segment', () => {
+      expect(matchRoute('/users/42/avatar', '/users/:id/avatar')).toEqual({ id: '42' });
+      expect(matchRoute('/users/42/7/avatar', '/users/:id/avatar')).toBeNull();
+      expect(matchRoute('/users//avatar', '/users/:id/avatar')).toBeNull();
+    });
+    
+    it('should match * within a single segment', () => {
+      expect(matchRoute('/files/report.json', '/files/*.json')).toEqual({});
+      expect(matchRoute('/files/a/report.json', '/files/*.json')).toBeNull();
+      expect(matchRoute('/files/report.jsonx', '/files/*.json')).toBeNull();
+    });
+    
+    it('should match ** across zero or more segments', () => {
+      expect(matchRoute('/api/export', '/api/**/export')).toEqual({});
+      expect(matchRoute('/api/v1/export', '/api/**/export')).toEqual({});
+      expect(matchRoute('/api/v1/users/export', '/api/**/export')).toEqual({});
+      expect(matchRoute('/api/v1/exports', '/api/**/export')).toBeNull();
+      expect(matchRoute('/admin', '/admin/**')).toEqual({});
+      expect(matchRoute('/admin/a/b', '/admin/**')).toEqual({});
+      expect(matchRoute('/administrator', '/admin/**')).toBeNull();
+    });
+    
+    it('should treat regex characters in paths literally', () => {
+      expect(matchRoute('/v1.0/items', '/v1.0/items')).toEqual({});
+      expect(matchRoute('/v1x0/items', '/v1.0/items')).toBeNull();
+      expect(matchRoute('/search(all)', '/search(all)')).toEqual({});
+      expect(matchRoute('/a+b', '/a+b')).toEqual({});
+    });
+    
+    it('should treat a bare colon literally', () => {
+      expect(matchRoute('/time/12:30', '/time/12:30')).toEqual({});
+      expect(matchRoute('/a:/b', '/a:/b')).toEqual({});
+    });
+    
+    it('should only start params at the start of a segment', () => {
+      expect(matchRoute('/v1/items:batch', '/v1/items:batch')).toEqual({});
+      expect(matchRoute('/v1/items:other', '/v1/items:batch')).toBeNull();
+      expect(matchRoute('/v1/items/42:batch', '/v1/items/:id:batch')).toEqual({ id: '42' });
+    });
+  });
+  
+  describe('regular expressions', () => {
+    it('should match RegExp patterns as written', () => {
+      expect(matchRoute('/v2/orders', /^\/v\d+\/orders$/)).toEqual({});
+      expect(matchRoute('/v2/orders/1', /^\/v\d+\/orders$/)).toBeNull();
+      expect(matchRoute('/x/v2/orders', /\/v\d+\/orders/)).toEqual({});
+    });
+    
+    it('should capture named groups', () => {
+      expect(matchRoute('/items/abc', /^\/items\/(?<slug>[a-z]+)$/)).toEqual({ slug: 'abc' });
+    });
+    
+    it('should give the same result on repeated calls with the global flag', () => {
+      const pattern = /^\/api\/.+/g;
+      
+      expect(matchRoute('/api/data', pattern)).toEqual({});
+      expect(matchRoute('/api/data', pattern)).toEqual({});
+    });
+    
+    it('should compile string patterns as regular expressions when asked', () => {
+      expect(matchRoute('/v3/orders', '^/v\\d+/orders$', true)).toEqual({});
+      expect(matchRoute('/v3/orders', '^/v\\d+/orders$')).toBeNull();
+    });
+    
+    it('should throw for invalid regular expressions', () => {
+      expect(() => compilePattern('(unclosed', true)).toThrow();
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import {
+  MemoryNonceStore,
+  KVNonceStore,
+  DurableObjectNonceStore,
+  createNonceStore
+} from '../src/nonce-store';
+import type { KVNamespaceLike } from '../src/nonce-store';
+import type { DurableObjectNamespaceLike } from '../src/coordinator';
+import { validateAndMergeConfig } from '../src/config';
+
+// In-memory stand-in for a Workers KV namespace
+function createKVNamespace() {
+  const entries = new Map<string, string>();
+  const namespace: KVNamespaceLike = {
+    get: jest.fn(async (key: string) => entries.get(key) ?? null),
+    put: jest.fn(async (key: string, value: string) => {
+      entries.set(key, value);
+    })
+  };
+  return { namespace, entries };
+}
+
+// In-memory stand-in for a Durable Object namespace answering nonce checks
+function createDurableObjectNamespace(status: number = 200) {
+  const seen = new Set<string>();
+  const fetch = jest.fn(async (input: string | Request, init?: RequestInit) => {
+    if (status !== 200) {
+      return new Response('error', { status });
+    }
+
+    const { key } = JSON.parse(init?.body as string);
+    const fresh = !seen.has(key);
+    seen.add(key);
+    return Response.json({ fresh });
+  });
+  const namespace: DurableObjectNamespaceLike = {
+    idFromName: jest.fn((name: string) => `id-${name}`),
+    get: jest.fn(() => ({ fetch }))
+  };
+  return { namespace, fetch };
+}
+
+describe('Nonce stores', () => {
+  describe('MemoryNonceStore', () => {
+    it('should accept a key once', async () => {
+      const store = new MemoryNonceStore(10);
+      
+      expect(await store.checkAndSet('1700000000:nonce', 30)).toBe(true);
+      expect(await store.checkAndSet('1700000000:nonce', 30)).toBe(false);
+      expect(await store.checkAndSet('1700000000:other', 30)).toBe(true);
+    });
+    
+    it('should forget keys after their ttl', async () => {
+      const store = new MemoryNonceStore(10);
+      await store.checkAndSet('1700000000:nonce', 0.02); // 20ms TTL
+      
+      // Wait for TTL to expire
+      await new Promise(resolve => setTimeout(resolve, 30));
+      
+      expect(await store.checkAndSet('1700000000:nonce', 0.02)).toBe(true);
+    });
+  });
+  
+  describe('KVNonceStore', () => {
+    it('should accept a key once', async () => {
+      const { namespace } = createKVNamespace();
+      const store = new KVNonceStore(namespace);
+      
+      expect(await store.checkAndSet('1700000000:nonce', 30)).toBe(true);
+      expect(await store.checkAndSet('1700000000:nonce', 30)).toBe(false);
+    });
+    
+    it('should prefix keys and respect the KV minimum ttl', async () => {
+      const { namespace, entries } = createKVNamespace();
+      const store = new KVNonceStore(namespace, 'pow:');
+      
+      await store.checkAndSet('1700000000:nonce', 30);
+      await store.checkAndSet('1700000000:other', 90.5);
+      
+      expect(entries.has('pow:1700000000:nonce')).toBe(true);
+      expect(namespace.put).toHaveBeenCalledWith('pow:1700000000:nonce', '1', { expirationTtl: 60 });
+      expect(namespace.put).toHaveBeenCalledWith('pow:1700000000:other', '1', { expirationTtl: 91 });
+    });
+  });
+  
+  describe('DurableObjectNonceStore', () => {
+    it('should check keys through the Durable Object', async () => {
+      const { namespace, fetch } = createDurableObjectNamespace();
+      const store = new DurableObjectNonceStore(namespace);
+      
+      expect(await store.checkAndSet('1700000000:nonce', 30)).toBe(true);
+      expect(await store.checkAndSet('1700000000:nonce', 30)).toBe(false);
+      
+      expect(namespace.idFromName).toHaveBeenCalledWith(expect.stringMatching(/^pow-shield:nonce:[0-9a-f]{2}$/));
+      expect(fetch).toHaveBeenCalledWith('https://pow-shield/nonce', expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ key: '1700000000:nonce', ttl: 30 })
+      }));
+    });
+    
+    it('should throw if the Durable Object fails', async () => {
+      const { namespace } = createDurableObjectNamespace(500);
+      const store = new DurableObjectNonceStore(namespace);
+      
+      await expect(store.checkAndSet('1700000000:nonce', 30))
+        .rejects.toThrow('Durable Object request to /nonce failed: 500');
+    });
+  });
+  
+  describe('createNonceStore', () => {
+    const configFor = (cacheType: 'memory' | 'kv' | 'durableObject') => validateAndMergeConfig({
+      endpoints: ['/api/test'],
+      secret: 'test-secret',
+      cacheType
+    }, 'cloudflare');
+    
+    it('should create a store for each cache type', () => {
+      expect(createNonceStore(configFor('memory'))).toBeInstanceOf(MemoryNonceStore);
+      expect(createNonceStore(configFor('kv'), { kv: createKVNamespace().namespace }))
+        .toBeInstanceOf(KVNonceStore);
+      expect(createNonceStore(configFor('durableObject'), { durableObject: createDurableObjectNamespace().namespace }))
+        .toBeInstanceOf(DurableObjectNonceStore);
+    });
+    
+    it('should throw if the binding for the cache type is missing', () => {
+      expect(() => createNonceStore(configFor('kv'))).toThrow("cacheType 'kv'");
+      expect(() => createNonceStore(configFor('durableObject'))).toThrow("cacheType 'durableObject'");
+    });
+  });
+});
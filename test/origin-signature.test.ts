@@ -0,0 +1,128 @@
+import { createOriginSigner, createOriginVerifier, getSignatureHeader } from '../src/origin-signature';
+import { validateAndMergeConfig } from '../src/config';
+import { createAccessToken } from '../src/token';
+
+// Uses the real WebCrypto implementation
+
+/**
+ * Wraps DER bytes in a PEM block
+ */
+const toPem = (der: ArrayBuffer, label: string) => {
+  const base64 = Buffer.from(der).toString('base64').replace(/(.{64})/g, '$1\n');
+  return `-----BEGIN ${label}-----\n${base64}\n-----END ${label}-----\n`;
+};
+
+describe('Origin signatures', () => {
+  const data = 'v2\nPOST\n/api/submit\nx=1\n1700000000\nnonce\ncontext\ndigest';
+  
+  describe('hmac', () => {
+    const config = validateAndMergeConfig({ endpoints: ['/api/*'], secret: 'test-secret' }, 'server');
+    
+    it('should sign into X-HMAC and verify with the shared secret', async () => {
+      const signer = createOriginSigner(config);
+      const signature = await signer.sign(data);
+      
+      expect(signer.header).toBe('X-HMAC');
+      expect(signature.value).toMatch(/^[0-9a-f]{64}$/);
+      expect(await createOriginVerifier(config).verify(data, signature.value)).toBe('valid');
+      expect(await createOriginVerifier(config).verify(data + 'x', signature.value)).toBe('invalid');
+    });
+    
+    it('should report unknown key IDs', async () => {
+      expect(await createOriginVerifier(config).verify(data, 'signature', 'missing')).toBe('unknown-key');
+    });
+    
+    it('should refuse to sign once every key has expired and no secret is set', async () => {
+      const expired = validateAndMergeConfig({
+        endpoints: ['/api/*'],
+        secrets: [{ id: 'old', secret: 'old-secret', notAfter: Math.floor(Date.now() / 1000) - 1 }]
+      }, 'server');
+      
+      await expect(createOriginSigner(expired).sign(data)).rejects.toThrow('PoW Shield has no active signing key');
+      expect(() => createAccessToken(expired, 'context', '/api/*')).toThrow('PoW Shield has no active signing key');
+    });
+  });
+  
+  describe.each([
+    ['ed25519', { name: 'Ed25519' }],
+    ['ecdsa-p256', { name: 'ECDSA', namedCurve: 'P-256' }]
+  ] as const)('%s', (algorithm, params) => {
+    let keys: CryptoKeyPair;
+    let otherKeys: CryptoKeyPair;
+    
+    beforeAll(async () => {
+      keys = await crypto.subtle.generateKey(params, true, ['sign', 'verify']) as CryptoKeyPair;
+      otherKeys = await crypto.subtle.generateKey(params, true, ['sign', 'verify']) as CryptoKeyPair;
+    });
+    
+    const pemConfig = async (pair: CryptoKeyPair) => ({
+      signatureAlgorithm: algorithm,
+      privateKey: toPem(await crypto.subtle.exportKey('pkcs8', pair.privateKey), 'PRIVATE KEY'),
+      publicKey: toPem(await crypto.subtle.exportKey('spki', pair.publicKey), 'PUBLIC KEY')
+    });
+    
+    it('should sign into X-Signature and verify with the PEM public key', async () => {
+      const config = await pemConfig(keys);
+      const signer = createOriginSigner(config);
+      const signature = await signer.sign(data);
+      
+      expect(signer.header).toBe('X-Signature');
+      expect(signature.keyId).toBeUndefined();
+      expect(await createOriginVerifier(config).verify(data, signature.value)).toBe('valid');
+    });
+    
+    it('should accept JWK keys, as objects or JSON', async () => {
+      const privateKey = await crypto.subtle.exportKey('jwk', keys.privateKey);
+      const publicKey = await crypto.subtle.exportKey('jwk', keys.publicKey);
+      
+      const signature = await createOriginSigner({ signatureAlgorithm: algorithm, privateKey }).sign(data);
+      const verifier = createOriginVerifier({ signatureAlgorithm: algorithm, publicKey: JSON.stringify(publicKey) });
+      
+      expect(await verifier.verify(data, signature.value)).toBe('valid');
+    });
+    
+    it('should reject tampered data, malformed signatures and other keys', async () => {
+      const config = await pemConfig(keys);
+      const signature = await createOriginSigner(config).sign(data);
+      const verifier = createOriginVerifier(config);
+      
+      expect(await verifier.verify(data.replace('POST', 'PUT'), signature.value)).toBe('invalid');
+      expect(await verifier.verify(data, 'not-hex')).toBe('invalid');
+      
+      const forged = await createOriginSigner(await pemConfig(otherKeys)).sign(data);
+      expect(await verifier.verify(data, forged.value)).toBe('invalid');
+    });
+  });
+  
+  it('should reject keys that are neither PEM nor JWK', async () => {
+    const signer = createOriginSigner({ signatureAlgorithm: 'ed25519', privateKey: 'not a key' });
+    
+    await expect(signer.sign(data)).rejects.toThrow('PoW Shield private key is not valid PEM or JWK');
+    // Failed imports are not cached, so each attempt reports the error again
+    await expect(signer.sign(data)).rejects.toThrow('PoW Shield private key is not valid PEM or JWK');
+  });
+  
+  it('should fall back to node:crypto where WebCrypto is not a global', async () => {
+    const keys = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']) as CryptoKeyPair;
+    const config = {
+      signatureAlgorithm: 'ecdsa-p256' as const,
+      privateKey: await crypto.subtle.exportKey('jwk', keys.privateKey),
+      publicKey: await crypto.subtle.exportKey('jwk', keys.publicKey)
+    };
+    
+    // As in Node 16 and 18
+    const descriptor = Object.getOwnPropertyDescriptor(globalThis, 'crypto')!;
+    Object.defineProperty(globalThis, 'crypto', { value: undefined, configurable: true });
+    try {
+      const signature = await createOriginSigner(config).sign(data);
+      expect(await createOriginVerifier(config).verify(data, signature.value)).toBe('valid');
+    } finally {
+      Object.defineProperty(globalThis, 'crypto', descriptor);
+    }
+  });
+  
+  it('should name the header for each algorithm', () => {
+    expect(getSignatureHeader()).toBe('X-HMAC');
+    expect(getSignatureHeader('ecdsa-p256')).toBe('X-Signature');
+  });
+});
@@ -0,0 +1,120 @@
+import { applyRateLimit, rateLimitHeaders } from '../src/utils/rate-limit';
+import type { RateLimitPolicy, RateLimitState } from '../src/utils/rate-limit';
+
+describe('Rate limit algorithms', () => {
+  const NOW = 1700000020000; // 40s into an aligned 60s window
+  
+  // Applies a policy to a series of request times, returning each outcome
+  const run = (policy: RateLimitPolicy, times: number[]) => {
+    let state: RateLimitState | undefined;
+    return times.map(time => {
+      const update = applyRateLimit(state, policy, time);
+      state = update.state;
+      return update;
+    });
+  };
+  
+  describe('fixedWindow', () => {
+    const policy: RateLimitPolicy = { limit: 2, window: 60, algorithm: 'fixedWindow' };
+    
+    it('should allow up to the limit within a window', () => {
+      const [first, second, third] = run(policy, [NOW, NOW + 1000, NOW + 2000]);
+      
+      expect(first.result).toEqual({ allowed: true, limit: 2, remaining: 1, resetAt: NOW + 60000, retryAfter: undefined });
+      expect(second.result.remaining).toBe(0);
+      expect(third.result).toEqual({ allowed: false, limit: 2, remaining: 0, resetAt: NOW + 60000, retryAfter: 58000 });
+    });
+    
+    it('should forget a steady client once its window ends', () => {
+      const updates = run(policy, [NOW, NOW + 30000, NOW + 59000, NOW + 60000]);
+      
+      expect(updates.map(update => update.result.allowed)).toEqual([true, true, false, true]);
+      expect(updates[2].expiresAt).toBe(NOW + 60000);
+    });
+  });
+  
+  describe('slidingWindow', () => {
+    const policy: RateLimitPolicy = { limit: 4, window: 60, algorithm: 'slidingWindow' };
+    const windowStart = 1699999980000;
+    
+    it('should weight the previous window by its overlap', () => {
+      // 4 requests fill the previous window; 20s into the next, 2/3 of them still count
+      const updates = run(policy, [NOW, NOW, NOW, NOW, NOW + 40000, NOW + 40000]);
+      
+      expect(updates.slice(0, 4).every(update => update.result.allowed)).toBe(true);
+      expect(updates[4].result.allowed).toBe(true);
+      expect(updates[5].result.allowed).toBe(false);
+      expect(updates[5].state).toEqual({ algorithm: 'slidingWindow', windowStart: windowStart + 60000, count: 1, previousCount: 4 });
+    });
+    
+    it('should estimate when the next request fits', () => {
+      const updates = run(policy, [NOW, NOW, NOW, NOW, NOW + 40000, NOW + 40000]);
+      
+      // 4 * (1 - t/60) + 1 + 1 <= 4 once t >= 30s into the window, i.e. 10s later
+      expect(updates[5].result.retryAfter).toBe(10000);
+    });
+    
+    it('should allow a retry exactly at the returned retryAfter', () => {
+      // The current window is full, so its requests only slide away during the next one
+      const [, , , , rejected] = run(policy, [NOW, NOW, NOW, NOW, NOW]);
+      const retryAfter = rejected.result.retryAfter!;
+      
+      // 4 * (1 - t/60) + 1 <= 4 once t >= 15s into the next window, which starts 20s from now
+      expect(retryAfter).toBe(35000);
+      expect(applyRateLimit(rejected.state, policy, NOW + retryAfter - 1).result.allowed).toBe(false);
+      expect(applyRateLimit(rejected.state, policy, NOW + retryAfter).result.allowed).toBe(true);
+      
+      const [, , , , , early] = run(policy, [NOW, NOW, NOW, NOW, NOW + 40000, NOW + 40000]);
+      expect(applyRateLimit(early.state, policy, NOW + 40000 + early.result.retryAfter!).result.allowed).toBe(true);
+    });
+    
+    it('should drop windows older than the previous one', () => {
+      const updates = run(policy, [NOW, NOW, NOW, NOW, NOW + 120000]);
+      
+      expect(updates[4].result.allowed).toBe(true);
+      expect(updates[4].state).toEqual({ algorithm: 'slidingWindow', windowStart: windowStart + 120000, count: 1, previousCount: 0 });
+    });
+  });
+  
+  describe('tokenBucket', () => {
+    const policy: RateLimitPolicy = { limit: 2, window: 60, algorithm: 'tokenBucket' };
+    
+    it('should allow a burst up to the limit, then refill evenly', () => {
+      const updates = run(policy, [NOW, NOW, NOW, NOW + 30000]);
+      
+      expect(updates.map(update => update.result.allowed)).toEqual([true, true, false, true]);
+      expect(updates[2].result.retryAfter).toBe(30000);
+      expect(updates[1].result.resetAt).toBe(NOW + 60000);
+    });
+    
+    it('should not refill beyond the limit', () => {
+      const updates = run(policy, [NOW, NOW + 600000]);
+      
+      expect(updates[1].result.remaining).toBe(1);
+    });
+  });
+  
+  it('should start over when the stored state belongs to another algorithm', () => {
+    const state: RateLimitState = { algorithm: 'fixedWindow', windowStart: NOW, count: 2 };
+    
+    const update = applyRateLimit(state, { limit: 2, window: 60, algorithm: 'tokenBucket' }, NOW);
+    
+    expect(update.result.allowed).toBe(true);
+  });
+  
+  describe('rateLimitHeaders', () => {
+    it('should report the limit, remaining requests and seconds until reset', () => {
+      expect(rateLimitHeaders({ allowed: true, limit: 30, remaining: 29, resetAt: NOW + 59500 }, NOW)).toEqual({
+        'RateLimit-Limit': '30',
+        'RateLimit-Remaining': '29',
+        'RateLimit-Reset': '60'
+      });
+    });
+    
+    it('should add Retry-After for rejected requests', () => {
+      const headers = rateLimitHeaders({ allowed: false, limit: 30, remaining: 0, resetAt: NOW + 1000, retryAfter: 200 }, NOW);
+      
+      expect(headers['Retry-After']).toBe('1');
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import {
+  MemoryRateLimiter,
+  KVRateLimiter,
+  DurableObjectRateLimiter,
+  createRateLimiter
+} from '../src/rate-limiter';
+import type { KVNamespaceLike } from '../src/nonce-store';
+import type { RateLimitPolicy } from '../src/utils/rate-limit';
+import { validateAndMergeConfig } from '../src/config';
+
+// In-memory stand-in for a Workers KV namespace
+function createKVNamespace() {
+  const entries = new Map<string, string>();
+  const namespace: KVNamespaceLike = {
+    get: jest.fn(async (key: string) => entries.get(key) ?? null),
+    put: jest.fn(async (key: string, value: string) => {
+      entries.set(key, value);
+    })
+  };
+  return { namespace, entries };
+}
+
+describe('Rate limiters', () => {
+  const NOW = 1700000000000;
+  const policy: RateLimitPolicy = { limit: 2, window: 60, algorithm: 'fixedWindow' };
+  
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+  });
+  
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+  
+  describe('MemoryRateLimiter', () => {
+    it('should count each key separately', async () => {
+      const limiter = new MemoryRateLimiter(10);
+      
+      expect((await limiter.consume('192.168.1.1', policy)).allowed).toBe(true);
+      expect((await limiter.consume('192.168.1.1', policy)).allowed).toBe(true);
+      expect((await limiter.consume('192.168.1.1', policy)).allowed).toBe(false);
+      expect((await limiter.consume('192.168.1.2', policy)).allowed).toBe(true);
+    });
+  });
+  
+  describe('KVRateLimiter', () => {
+    it('should store counter state as JSON with the KV minimum ttl', async () => {
+      const { namespace, entries } = createKVNamespace();
+      const limiter = new KVRateLimiter(namespace);
+      
+      await limiter.consume('192.168.1.1', { ...policy, window: 10 });
+      
+      expect(JSON.parse(entries.get('rate:192.168.1.1')!)).toEqual({ algorithm: 'fixedWindow', windowStart: NOW, count: 1 });
+      expect(namespace.put).toHaveBeenCalledWith('rate:192.168.1.1', expect.any(String), { expirationTtl: 60 });
+    });
+    
+    it('should share counters between limiters using the same namespace', async () => {
+      const { namespace } = createKVNamespace();
+      
+      await new KVRateLimiter(namespace).consume('192.168.1.1', policy);
+      await new KVRateLimiter(namespace).consume('192.168.1.1', policy);
+      
+      expect((await new KVRateLimiter(namespace).consume('192.168.1.1', policy)).allowed).toBe(false);
+    });
+    
+    it('should not write rejected requests', async () => {
+      const { namespace } = createKVNamespace();
+      const limiter = new KVRateLimiter(namespace);
+      
+      await limiter.consume('192.168.1.1', policy);
+      await limiter.consume('192.168.1.1', policy);
+      await limiter.consume('192.168.1.1', policy);
+      
+      expect(namespace.put).toHaveBeenCalledTimes(2);
+    });
+    
+    it('should fail open when KV reads or writes fail', async () => {
+      const namespace: KVNamespaceLike = {
+        get: jest.fn().mockRejectedValue(new Error('KV GET failed')),
+        put: jest.fn().mockRejectedValue(new Error('KV PUT failed: 429 Too Many Requests'))
+      };
+      
+      const result = await new KVRateLimiter(namespace).consume('192.168.1.1', policy);
+      
+      expect(result.allowed).toBe(true);
+      expect(namespace.put).toHaveBeenCalled();
+    });
+  });
+  
+  describe('createRateLimiter', () => {
+    const configFor = (cacheType: 'memory' | 'kv' | 'durableObject') => validateAndMergeConfig({
+      endpoints: ['/api/test'],
+      secret: 'test-secret',
+      cacheType
+    }, 'cloudflare');
+    const durableObject = { idFromName: (name: string) => name, get: jest.fn() };
+    
+    it('should create a limiter for each cache type', () => {
+      expect(createRateLimiter(configFor('memory'))).toBeInstanceOf(MemoryRateLimiter);
+      expect(createRateLimiter(configFor('kv'), { kv: createKVNamespace().namespace })).toBeInstanceOf(KVRateLimiter);
+      expect(createRateLimiter(configFor('durableObject'), { durableObject })).toBeInstanceOf(DurableObjectRateLimiter);
+    });
+    
+    it('should throw if the binding for the cache type is missing', () => {
+      expect(() => createRateLimiter(configFor('kv'))).toThrow("cacheType 'kv'");
+      expect(() => createRateLimiter(configFor('durableObject'))).toThrow("cacheType 'durableObject'");
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { findEndpointRule } from '../src/rules';
+import { validateAndMergeConfig } from '../src/config';
+
+describe('Endpoint rules', () => {
+  const config = validateAndMergeConfig({
+    endpoints: [
+      { pattern: '/api/submit', methods: ['post'], difficulty: 8, requestsPerMinute: 5 },
+      { pattern: '/api/submit', methods: ['GET'], difficulty: 2, timestampTolerance: 10 },
+      '/api/*'
+    ],
+    difficulty: 4,
+    timestampTolerance: 30
+  });
+  
+  describe('findEndpointRule', () => {
+    it('should apply the first rule matching path and method', () => {
+      expect(findEndpointRule(config, '/api/submit', 'POST')).toEqual({
+        pattern: '/api/submit',
+        params: {},
+        difficulty: 8,
+        timestampTolerance: 30,
+        requestsPerMinute: 5
+      });
+      expect(findEndpointRule(config, '/api/submit', 'get')).toEqual({
+        pattern: '/api/submit',
+        params: {},
+        difficulty: 2,
+        timestampTolerance: 10,
+        requestsPerMinute: undefined
+      });
+    });
+    
+    it('should fall through to later rules for other methods', () => {
+      expect(findEndpointRule(config, '/api/submit', 'DELETE')).toEqual({
+        pattern: '/api/*',
+        params: {},
+        difficulty: 4,
+        timestampTolerance: 30,
+        requestsPerMinute: undefined
+      });
+    });
+    
+    it('should default to GET', () => {
+      expect(findEndpointRule(config, '/api/submit')?.difficulty).toBe(2);
+    });
+    
+    it('should return null for unprotected paths', () => {
+      expect(findEndpointRule(config, '/public', 'GET')).toBeNull();
+    });
+  });
+  
+  describe('exclusions', () => {
+    const excluding = validateAndMergeConfig({
+      endpoints: [
+        '/api/*',
+        '!/api/health',
+        { pattern: '/api/webhooks/**', exclude: true, methods: ['POST'] }
+      ]
+    });
+    
+    it('should skip excluded paths wherever the exclusion is listed', () => {
+      expect(findEndpointRule(excluding, '/api/health')).toBeNull();
+      expect(findEndpointRule(excluding, '/api/healthz')).not.toBeNull();
+      expect(findEndpointRule(excluding, '/api/data')).not.toBeNull();
+    });
+    
+    it('should honour methods on exclusions', () => {
+      expect(findEndpointRule(excluding, '/api/webhooks/stripe', 'POST')).toBeNull();
+      expect(findEndpointRule(excluding, '/api/webhooks/stripe', 'GET')).not.toBeNull();
+    });
+  });
+  
+  describe('patterns', () => {
+    it('should return params captured by the matching rule', () => {
+      const paramConfig = validateAndMergeConfig({
+        endpoints: [{ pattern: '/users/:id/posts/:postId', difficulty: 6 }]
+      });
+      
+      expect(findEndpointRule(paramConfig, '/users/42/posts/7')).toEqual({
+        pattern: '/users/:id/posts/:postId',
+        params: { id: '42', postId: '7' },
+        difficulty: 6,
+        timestampTolerance: 30,
+        requestsPerMinute: undefined
+      });
+    });
+    
+    it('should match RegExp entries and regex rules', () => {
+      const regexConfig = validateAndMergeConfig({
+        endpoints: [
+          /^\/v\d+\/orders$/,
+          { pattern: '^/files/(?<name>[^/]+)\\.pdf$', regex: true, difficulty: 7 }
+        ]
+      });
+      
+      expect(findEndpointRule(regexConfig, '/v2/orders')?.pattern).toBe('/^\\/v\\d+\\/orders$/');
+      expect(findEndpointRule(regexConfig, '/v2/orders/1')).toBeNull();
+      expect(findEndpointRule(regexConfig, '/files/report.pdf')).toMatchObject({
+        params: { name: 'report' },
+        difficulty: 7
+      });
+      expect(findEndpointRule(regexConfig, '/files/report.txt')).toBeNull();
+    });
+  });
+});
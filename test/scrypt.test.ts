@@ -0,0 +1,34 @@
+import { scrypt, validateScryptParams } from '../src/utils/scrypt';
+import { CryptoUtils } from '../src/utils/crypto';
+
+const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+describe('scrypt', () => {
+  // Test vectors from RFC 7914, section 12
+  it('should match the RFC 7914 test vectors', () => {
+    expect(hex(scrypt(utf8(''), utf8(''), { N: 16, r: 1, p: 1 }, 64))).toBe(
+      '77d6576238657b203b19ca42c18a0497f16b4844e3074ae8dfdffa3fede21442' +
+      'fcd0069ded0948f8326a753a0fc81f17e8d3e0fb2e0d3628cf35e20c38d18906'
+    );
+    expect(hex(scrypt(utf8('password'), utf8('NaCl'), { N: 1024, r: 8, p: 16 }, 64))).toBe(
+      'fdbabe1c9d3472007856e7190d01e9fe7c6ad7cbc8237830e77376634b373162' +
+      '2eaf30d92e22a3886ff109279d9830dac727afb94a83ee6d8360cbdfa2cc0640'
+    );
+  });
+  
+  it('should produce 32-byte hex stamps in CryptoUtils', () => {
+    const stamp = CryptoUtils.scrypt('/api/data:1700000000:nonce:context', { N: 16, r: 1, p: 1 });
+    
+    expect(stamp).toMatch(/^[0-9a-f]{64}$/);
+    expect(CryptoUtils.scrypt('/api/data:1700000000:nonce:context', { N: 16, r: 1, p: 1 })).toBe(stamp);
+    expect(CryptoUtils.scrypt('/api/data:1700000000:nonce:context', { N: 32, r: 1, p: 1 })).not.toBe(stamp);
+  });
+  
+  it('should validate cost parameters', () => {
+    expect(validateScryptParams({ N: 1024, r: 8, p: 1 })).toBeNull();
+    expect(validateScryptParams({ N: 1000, r: 8, p: 1 })).toBe('N must be a power of two greater than 1');
+    expect(validateScryptParams({ N: 1, r: 8, p: 1 })).toBe('N must be a power of two greater than 1');
+    expect(validateScryptParams({ N: 1024, r: 0, p: 1 })).toBe('r and p must be positive integers');
+  });
+});
@@ -2,10 +2,24 @@ import { PowServer } from '../src/server';
 import { CryptoUtils } from '../src/utils/crypto';
 
 // Mock the CryptoUtils for controlled testing
+// Fixed clock so signed timestamps stay fresh
+const NOW = 1700000000;
+
+// Canonical strings for a GET /api/test signed at NOW with 'valid' nonce and context
+const VALID_V1_DATA = '1700000000:valid:valid';
+const VALID_V2_DATA = 'v2\nGET\n/api/test\n\n1700000000\nvalid\nvalid\nvalid-digest';
+
 jest.mock('../src/utils/crypto', () => ({
   CryptoUtils: {
     hmac: jest.fn().mockImplementation((data, secret) => 
-      data === 'valid:valid:valid' ? 'valid-hmac' : 'different-hmac') // Changed from 'invalid-hmac' to 'different-hmac'
+      data === VALID_V1_DATA || data === VALID_V2_DATA
+        ? (secret === 'test-secret' ? 'valid-hmac' : `valid-hmac-${secret}`)
+        : 'different-hmac'), // Changed from 'invalid-hmac' to 'different-hmac'
+    sha256: jest.fn().mockImplementation(data => `mocked-hash-${data}`),
+    sha256Bytes: jest.fn().mockReturnValue('valid-digest'),
+    hasLeadingZeros: jest.fn().mockReturnValue(true),
+    timingSafeEqual: jest.fn().mockImplementation((actual, expected) => actual === expected),
+    generateNonce: jest.fn().mockReturnValue('mocked-seed')
   }
 }));
 
@@ -14,6 +28,7 @@ describe('PowServer', () => {
   
   beforeEach(() => {
     jest.clearAllMocks();
+    jest.spyOn(Date, 'now').mockReturnValue(NOW * 1000);
     
     // Create a server instance with test configuration
     powServer = new PowServer({
@@ -22,41 +37,45 @@ describe('PowServer', () => {
     });
   });
   
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+  
   describe('expressMiddleware', () => {
-    it('should pass through non-protected endpoints', () => {
+    it('should pass through non-protected endpoints', async () => {
       const req = { path: '/public' };
       const res = {};
       const next = jest.fn();
       
       const middleware = powServer.expressMiddleware();
-      middleware(req, res, next);
+      await middleware(req, res, next);
       
       // Should call next() without error
       expect(next).toHaveBeenCalledTimes(1);
       expect(next).toHaveBeenCalledWith();
     });
     
-    it('should reject requests without HMAC signature in strict mode', () => {
+    it('should reject requests without HMAC signature in strict mode', async () => {
       const req = { 
         path: '/api/test', 
         headers: {} // No HMAC header
       };
       const res = {
         status: jest.fn().mockReturnThis(),
-        send: jest.fn().mockReturnThis() // Updated to chain
+        json: jest.fn().mockReturnThis() // Updated to chain
       };
       const next = jest.fn();
       
       const middleware = powServer.expressMiddleware();
-      middleware(req, res, next);
+      await middleware(req, res, next);
       
       // Should return 403
       expect(res.status).toHaveBeenCalledWith(403);
-      expect(res.send).toHaveBeenCalled();
+      expect(res.json).toHaveBeenCalled();
       expect(next).not.toHaveBeenCalled();
     });
     
-    it('should allow requests without HMAC signature in non-strict mode', () => {
+    it('should allow requests without HMAC signature in non-strict mode', async () => {
       // Create server with non-strict mode
       const nonStrictServer = new PowServer({
         endpoints: ['/api/test', '/api/data'],
@@ -72,19 +91,19 @@ describe('PowServer', () => {
       };
       const res = {
         status: jest.fn().mockReturnThis(),
-        send: jest.fn().mockReturnThis() // Updated to chain
+        json: jest.fn().mockReturnThis() // Updated to chain
       };
       const next = jest.fn();
       
       const middleware = nonStrictServer.expressMiddleware();
-      middleware(req, res, next);
+      await middleware(req, res, next);
       
       // Should call next() without error
       expect(next).toHaveBeenCalledTimes(1);
       expect(res.status).not.toHaveBeenCalled();
     });
     
-    it('should reject requests with missing headers', () => {
+    it('should reject requests with missing headers', async () => {
       const req = { 
         path: '/api/test', 
         headers: {
@@ -94,62 +113,66 @@ describe('PowServer', () => {
       };
       const res = {
         status: jest.fn().mockReturnThis(),
-        send: jest.fn().mockReturnThis() // Updated to chain
+        json: jest.fn().mockReturnThis() // Updated to chain
       };
       const next = jest.fn();
       
       const middleware = powServer.expressMiddleware();
-      middleware(req, res, next);
+      await middleware(req, res, next);
       
       // Should return 400
       expect(res.status).toHaveBeenCalledWith(400);
-      expect(res.send).toHaveBeenCalled();
+      expect(res.json).toHaveBeenCalled();
       expect(next).not.toHaveBeenCalled();
     });
     
-    it('should reject requests with invalid HMAC signature', () => {
+    it('should reject requests with invalid HMAC signature', async () => {
       const req = { 
         path: '/api/test', 
         headers: {
-          'x-hmac': 'invalid-hmac', // This won't match 'different-hmac' from the mock
-          'x-timestamp': '1623456789',
-          'x-nonce': 'test-nonce',
-          'x-context': 'test-context'
+          'x-hmac': 'invalid-hmac', // Fresh and well-formed, so only the signature is wrong
+          'x-hmac-version': 'v2',
+          'x-content-digest': 'valid-digest',
+          'x-timestamp': String(NOW),
+          'x-nonce': 'valid',
+          'x-context': 'valid'
         } 
       };
       const res = {
         status: jest.fn().mockReturnThis(),
-        send: jest.fn().mockReturnThis() // Updated to chain
+        json: jest.fn().mockReturnThis() // Updated to chain
       };
       const next = jest.fn();
       
       const middleware = powServer.expressMiddleware();
-      middleware(req, res, next);
+      await middleware(req, res, next);
       
       // Should return 403
       expect(res.status).toHaveBeenCalledWith(403);
-      expect(res.send).toHaveBeenCalled();
+      expect(res.json).toHaveBeenCalledWith({ code: 'HMAC_INVALID', message: 'Invalid HMAC signature' });
       expect(next).not.toHaveBeenCalled();
     });
     
-    it('should accept requests with valid HMAC signature', () => {
+    it('should accept requests with valid HMAC signature', async () => {
       const req = { 
         path: '/api/test', 
         headers: {
           'x-hmac': 'valid-hmac',
-          'x-timestamp': 'valid',
+          'x-hmac-version': 'v2',
+          'x-content-digest': 'valid-digest',
+          'x-timestamp': '1700000000',
           'x-nonce': 'valid',
           'x-context': 'valid'
         } 
       };
       const res = {
         status: jest.fn().mockReturnThis(),
-        send: jest.fn().mockReturnThis() // Updated to chain
+        json: jest.fn().mockReturnThis() // Updated to chain
       };
       const next = jest.fn();
       
       const middleware = powServer.expressMiddleware();
-      middleware(req, res, next);
+      await middleware(req, res, next);
       
       // Should call next() without error
       expect(next).toHaveBeenCalledTimes(1);
@@ -157,8 +180,232 @@ describe('PowServer', () => {
     });
   });
   
+  describe('HMAC versions', () => {
+    const v2Headers = {
+      'x-hmac': 'valid-hmac',
+      'x-hmac-version': 'v2',
+      'x-content-digest': 'valid-digest',
+      'x-timestamp': '1700000000',
+      'x-nonce': 'valid',
+      'x-context': 'valid'
+    };
+    
+    const run = async (server: PowServer, req: any) => {
+      const res = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn().mockReturnThis()
+      };
+      const next = jest.fn();
+      await server.expressMiddleware()(req, res, next);
+      return { res, next };
+    };
+    
+    it('should reject v1 signatures by default', async () => {
+      const { res, next } = await run(powServer, {
+        path: '/api/test',
+        headers: { 'x-hmac': 'valid-hmac', 'x-timestamp': '1700000000', 'x-nonce': 'valid', 'x-context': 'valid' }
+      });
+      
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(res.json).toHaveBeenCalledWith({ code: 'HMAC_UNSUPPORTED', message: 'Legacy HMAC signature not accepted' });
+      expect(next).not.toHaveBeenCalled();
+    });
+    
+    it('should accept v1 signatures when legacy HMAC is enabled', async () => {
+      const legacyServer = new PowServer({
+        endpoints: ['/api/test'],
+        secret: 'test-secret',
+        server: { acceptLegacyHmac: true }
+      });
+      
+      const { next } = await run(legacyServer, {
+        path: '/api/test',
+        headers: { 'x-hmac': 'valid-hmac', 'x-timestamp': '1700000000', 'x-nonce': 'valid', 'x-context': 'valid' }
+      });
+      
+      expect(next).toHaveBeenCalledTimes(1);
+    });
+    
+    it('should reject v2 signatures replayed on another path or method', async () => {
+      const otherPath = await run(powServer, { path: '/api/data', headers: v2Headers });
+      expect(otherPath.res.status).toHaveBeenCalledWith(403);
+      
+      const otherMethod = await run(powServer, { path: '/api/test', method: 'DELETE', headers: v2Headers });
+      expect(otherMethod.res.status).toHaveBeenCalledWith(403);
+      
+      const otherQuery = await run(powServer, { path: '/api/test', originalUrl: '/api/test?id=2', headers: v2Headers });
+      expect(otherQuery.res.status).toHaveBeenCalledWith(403);
+    });
+    
+    it('should require the content digest for v2 signatures', async () => {
+      const { 'x-content-digest': _, ...headers } = v2Headers;
+      const { res } = await run(powServer, { path: '/api/test', headers });
+      
+      expect(res.status).toHaveBeenCalledWith(400);
+    });
+    
+    it('should check the content digest against the raw body when available', async () => {
+      (CryptoUtils.sha256Bytes as jest.Mock).mockReturnValueOnce('other-digest');
+      const { res, next } = await run(powServer, { path: '/api/test', headers: v2Headers, rawBody: 'tampered' });
+      
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(res.json).toHaveBeenCalledWith({ code: 'CONTENT_DIGEST_MISMATCH', message: 'Content digest mismatch' });
+      expect(next).not.toHaveBeenCalled();
+    });
+    
+    it('should compare signatures and digests in constant time', async () => {
+      const { next } = await run(powServer, { path: '/api/test', headers: { ...v2Headers, 'x-hmac': 'VALID-HMAC' }, rawBody: 'body' });
+      
+      expect(CryptoUtils.timingSafeEqual).toHaveBeenCalledWith('valid-digest', 'valid-digest');
+      expect(CryptoUtils.timingSafeEqual).toHaveBeenCalledWith('VALID-HMAC', 'valid-hmac');
+      expect(next).not.toHaveBeenCalled();
+    });
+    
+    it('should reject unknown versions', async () => {
+      const { res } = await run(powServer, { path: '/api/test', headers: { ...v2Headers, 'x-hmac-version': 'v9' } });
+      
+      expect(res.status).toHaveBeenCalledWith(403);
+    });
+  });
+  
+  describe('replay protection', () => {
+    const signedHeaders = {
+      'x-hmac': 'valid-hmac',
+      'x-hmac-version': 'v2',
+      'x-content-digest': 'valid-digest',
+      'x-timestamp': '1700000000',
+      'x-nonce': 'valid',
+      'x-context': 'valid'
+    };
+    
+    const run = async (req: any) => {
+      const res = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn().mockReturnThis()
+      };
+      const next = jest.fn();
+      await powServer.expressMiddleware()(req, res, next);
+      return { res, next };
+    };
+    
+    it('should reject a signed request replayed with the same nonce', async () => {
+      const first = await run({ path: '/api/test', headers: signedHeaders });
+      expect(first.next).toHaveBeenCalledTimes(1);
+      
+      const replay = await run({ path: '/api/test', headers: signedHeaders });
+      expect(replay.res.status).toHaveBeenCalledWith(403);
+      expect(replay.res.json).toHaveBeenCalledWith({ code: 'POW_REPLAY', message: 'Nonce already used' });
+      expect(replay.next).not.toHaveBeenCalled();
+    });
+    
+    it('should reject signed requests older than the timestamp tolerance', async () => {
+      (Date.now as jest.Mock).mockReturnValue((NOW + 31) * 1000);
+      
+      const { res, next } = await run({ path: '/api/test', headers: signedHeaders });
+      
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(res.json).toHaveBeenCalledWith({ code: 'POW_EXPIRED', message: 'Timestamp expired or invalid' });
+      expect(next).not.toHaveBeenCalled();
+    });
+    
+    it('should reject signed requests dated ahead of the skew allowance', async () => {
+      (Date.now as jest.Mock).mockReturnValue((NOW - 11) * 1000);
+      
+      const { res, next } = await run({ path: '/api/test', headers: signedHeaders });
+      
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(res.json).toHaveBeenCalledWith({ code: 'POW_EXPIRED', message: 'Timestamp expired or invalid' });
+      expect(next).not.toHaveBeenCalled();
+    });
+    
+    it('should honour a custom timestamp tolerance', async () => {
+      (Date.now as jest.Mock).mockReturnValue((NOW + 31) * 1000);
+      const tolerantServer = new PowServer({
+        endpoints: ['/api/test'],
+        secret: 'test-secret',
+        timestampTolerance: 60
+      });
+      const next = jest.fn();
+      
+      await tolerantServer.expressMiddleware()({ path: '/api/test', headers: signedHeaders }, {}, next);
+      
+      expect(next).toHaveBeenCalledTimes(1);
+    });
+    
+    it('should not record nonces of requests with invalid signatures', async () => {
+      const forged = await run({ path: '/api/test', headers: { ...signedHeaders, 'x-hmac': 'forged' } });
+      expect(forged.res.status).toHaveBeenCalledWith(403);
+      
+      // The genuine request with the same nonce still goes through
+      const genuine = await run({ path: '/api/test', headers: signedHeaders });
+      expect(genuine.next).toHaveBeenCalledTimes(1);
+    });
+  });
+  
+  describe('key rotation', () => {
+    const signedHeaders = {
+      'x-hmac-version': 'v2',
+      'x-content-digest': 'valid-digest',
+      'x-timestamp': '1700000000',
+      'x-nonce': 'valid',
+      'x-context': 'valid'
+    };
+    
+    let rotatingServer: PowServer;
+    
+    beforeEach(() => {
+      rotatingServer = new PowServer({
+        endpoints: ['/api/test'],
+        secrets: [
+          { id: 'new', secret: 'new-secret' },
+          { id: 'old', secret: 'old-secret', notAfter: NOW + 60 }
+        ]
+      });
+    });
+    
+    const run = async (headers: Record<string, string>) => {
+      const res = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn().mockReturnThis()
+      };
+      const next = jest.fn();
+      await rotatingServer.expressMiddleware()({ path: '/api/test', headers }, res, next);
+      return { res, next };
+    };
+    
+    it('should verify signatures with the key named by the key ID', async () => {
+      const newKey = await run({ ...signedHeaders, 'x-hmac': 'valid-hmac-new-secret', 'x-hmac-key-id': 'new' });
+      expect(newKey.next).toHaveBeenCalledTimes(1);
+      
+      const oldKey = await run({ ...signedHeaders, 'x-nonce': 'other', 'x-hmac': 'valid-hmac-new-secret', 'x-hmac-key-id': 'old' });
+      expect(oldKey.res.json).toHaveBeenCalledWith({ code: 'HMAC_INVALID', message: 'Invalid HMAC signature' });
+    });
+    
+    it('should reject unknown and expired key IDs', async () => {
+      const unknown = await run({ ...signedHeaders, 'x-hmac': 'valid-hmac-new-secret', 'x-hmac-key-id': 'missing' });
+      expect(unknown.res.status).toHaveBeenCalledWith(403);
+      expect(unknown.res.json).toHaveBeenCalledWith({ code: 'HMAC_INVALID', message: 'Unknown or expired HMAC key' });
+      
+      (Date.now as jest.Mock).mockReturnValue((NOW + 61) * 1000);
+      const expired = await run({
+        ...signedHeaders,
+        'x-timestamp': String(NOW + 61),
+        'x-hmac': 'valid-hmac-old-secret',
+        'x-hmac-key-id': 'old'
+      });
+      expect(expired.res.json).toHaveBeenCalledWith({ code: 'HMAC_INVALID', message: 'Unknown or expired HMAC key' });
+    });
+    
+    it('should try every active key for signatures without a key ID', async () => {
+      const { next } = await run({ ...signedHeaders, 'x-hmac': 'valid-hmac-old-secret' });
+      
+      expect(next).toHaveBeenCalledTimes(1);
+      expect(CryptoUtils.timingSafeEqual).toHaveBeenCalledTimes(2);
+    });
+  });
+  
   describe('fastifyPlugin', () => {
-    it('should register preHandler hook', () => {
+    it('should register preHandler hook', async () => {
       const fastify = {
         addHook: jest.fn()
       };
@@ -186,7 +433,9 @@ describe('PowServer', () => {
         path: '/api/test',
         headers: {
           'x-hmac': 'valid-hmac',
-          'x-timestamp': 'valid',
+          'x-hmac-version': 'v2',
+          'x-content-digest': 'valid-digest',
+          'x-timestamp': '1700000000',
           'x-nonce': 'valid',
           'x-context': 'valid'
         }
@@ -206,6 +455,8 @@ describe('PowServer', () => {
         path: '/api/test',
         headers: {
           'x-hmac': 'invalid-hmac', // This won't match 'different-hmac' from the mock
+          'x-hmac-version': 'v2',
+          'x-content-digest': 'valid-digest',
           'x-timestamp': 'invalid',
           'x-nonce': 'invalid',
           'x-context': 'invalid'
@@ -222,4 +473,115 @@ describe('PowServer', () => {
       expect(invalidCtx.status).toBe(403);
     });
   });
-});
\ No newline at end of file
+  
+  describe('standalone mode', () => {
+    let standaloneServer: PowServer;
+    
+    beforeEach(() => {
+      standaloneServer = new PowServer({
+        endpoints: ['/api/test'],
+        secret: 'test-secret',
+        challenge: { enabled: true },
+        server: { standalone: true }
+      });
+    });
+    
+    const powHeaders = (nonce: string, challenge: string) => {
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      return {
+        'x-timestamp': timestamp,
+        'x-nonce': nonce,
+        'x-context': 'test-context',
+        'x-challenge': challenge,
+        'x-stamp': `mocked-hash-/api/test:${timestamp}:${nonce}:test-context:mocked-seed`
+      };
+    };
+    
+    it('should serve challenges from Express', async () => {
+      const req = { path: '/pow-challenge', method: 'GET' };
+      const res = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn().mockReturnThis()
+      };
+      const next = jest.fn();
+      
+      await standaloneServer.expressMiddleware()(req, res, next);
+      
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+        seed: 'mocked-seed',
+        difficulty: 4
+      }));
+      expect(next).not.toHaveBeenCalled();
+    });
+    
+    it('should not serve challenges unless standalone', async () => {
+      const edgeServer = new PowServer({
+        endpoints: ['/api/test'],
+        secret: 'test-secret',
+        challenge: { enabled: true }
+      });
+      const next = jest.fn();
+      
+      await edgeServer.expressMiddleware()({ path: '/pow-challenge', method: 'GET' }, {}, next);
+      
+      expect(next).toHaveBeenCalledTimes(1);
+    });
+    
+    it('should verify PoW stamps instead of HMAC', async () => {
+      const challenge = `mocked-seed.4.${Math.floor(Date.now() / 1000) + 60}.different-hmac`;
+      const req = { path: '/api/test', method: 'GET', headers: powHeaders('standalone-nonce', challenge) };
+      const res = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn().mockReturnThis()
+      };
+      const next = jest.fn();
+      
+      const middleware = standaloneServer.expressMiddleware();
+      await middleware(req, res, next);
+      
+      expect(next).toHaveBeenCalledTimes(1);
+      
+      // Replaying the same nonce must fail
+      await middleware(req, res, next);
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(next).toHaveBeenCalledTimes(1);
+    });
+    
+    it('should reject requests without a challenge', async () => {
+      const ctx: any = {
+        path: '/api/test',
+        method: 'GET',
+        headers: {
+          'x-timestamp': Math.floor(Date.now() / 1000).toString(),
+          'x-nonce': 'koa-nonce',
+          'x-context': 'test-context',
+          'x-stamp': 'stamp'
+        }
+      };
+      const next = jest.fn();
+      
+      await standaloneServer.koaMiddleware()(ctx, next);
+      
+      expect(ctx.status).toBe(400);
+      expect(next).not.toHaveBeenCalled();
+    });
+    
+    it('should serve challenges from Fastify', async () => {
+      let hook: any;
+      const fastify = { addHook: jest.fn((name, fn) => { hook = fn; }) };
+      standaloneServer.fastifyPlugin()(fastify, {}, jest.fn());
+      
+      const reply = {
+        code: jest.fn().mockReturnThis(),
+        send: jest.fn().mockReturnThis()
+      };
+      const done = jest.fn();
+      hook({ url: '/pow-challenge?t=1', method: 'GET', headers: {} }, reply, done);
+      
+      expect(reply.code).toHaveBeenCalledWith(200);
+      expect(reply.send).toHaveBeenCalledWith(expect.objectContaining({ seed: 'mocked-seed' }));
+      expect(done).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { getBrowserSolver, solveInWorkers } from '../src/solver';
+import { CryptoUtils } from '../src/utils/crypto';
+
+describe('Worker solver', () => {
+  it('should find a nonce on worker threads', async () => {
+    const solution = await solveInWorkers({ prefix: '/api/data:1700000000:', suffix: ':test-context', difficulty: 10 }, { threads: 2 });
+    
+    expect(solution).not.toBeNull();
+    expect(solution!.nonce).toMatch(/^[0-9a-f]{33,}$/);
+    expect(solution!.stamp).toBe(CryptoUtils.sha256(`/api/data:1700000000:${solution!.nonce}:test-context`));
+    expect(CryptoUtils.hasLeadingZeros(solution!.stamp, 10)).toBe(true);
+    expect(solution!.attempts).toBeGreaterThan(0);
+  });
+  
+  it('should count up from a random prefix', async () => {
+    const solution = await solveInWorkers({ prefix: 'a:', suffix: ':b', difficulty: 7 }, { threads: 1 });
+    
+    expect(CryptoUtils.hasLeadingZeros(solution!.stamp, 7)).toBe(true);
+    expect(solution!.nonce.slice(32)).toBe((solution!.attempts - 1).toString(16));
+  });
+  
+  it('should search for a target with a fractional difficulty', async () => {
+    const solution = await solveInWorkers({ prefix: 'a:', suffix: ':b', difficulty: 6.5 }, { threads: 1 });
+    
+    expect(CryptoUtils.hasLeadingZeros(solution!.stamp, 6.5)).toBe(true);
+    expect(CryptoUtils.hasLeadingZeros(solution!.stamp, 6)).toBe(true);
+  });
+  
+  it('should find a scrypt nonce on worker threads', async () => {
+    const scrypt = { N: 16, r: 2, p: 2 };
+    const suffix = `:${'c'.repeat(64)}`;
+    const solution = await solveInWorkers({ prefix: '/api/data:1700000000:', suffix, difficulty: 4, scrypt }, { threads: 2 });
+    
+    expect(solution!.stamp).toBe(CryptoUtils.scrypt(`/api/data:1700000000:${solution!.nonce}${suffix}`, scrypt));
+    expect(CryptoUtils.hasLeadingZeros(solution!.stamp, 4)).toBe(true);
+  });
+  
+  it('should report progress while searching', async () => {
+    const onAttempts = jest.fn();
+    const controller = new AbortController();
+    const search = solveInWorkers({ prefix: 'a:', suffix: ':b', difficulty: 256 }, {
+      threads: 1,
+      signal: controller.signal,
+      onAttempts: total => {
+        onAttempts(total);
+        controller.abort();
+      }
+    });
+    
+    await expect(search).rejects.toThrow('PoW solving aborted');
+    expect(onAttempts).toHaveBeenCalledWith(65536);
+  });
+  
+  it('should reject at once when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    
+    await expect(solveInWorkers({ prefix: 'a:', suffix: ':b', difficulty: 4 }, { threads: 1, signal: controller.signal }))
+      .rejects.toThrow('PoW solving aborted');
+  });
+  
+  it('should return null when no threads are requested', async () => {
+    expect(await solveInWorkers({ prefix: 'a:', suffix: ':b', difficulty: 4 }, { threads: 0 })).toBeNull();
+  });
+  
+  it('should give pages a Web Worker source that finds a nonce', () => {
+    const { source, task } = getBrowserSolver({ prefix: 'a:', suffix: ':b', difficulty: 6.5 });
+    const messages: any[] = [];
+    const self: any = { postMessage: (message: any) => messages.push(message) };
+    
+    // Run the source the way a Web Worker would, with its own global scope
+    new Function('self', source)(self);
+    self.onmessage({ data: task });
+    
+    const solution = messages.find(message => message.type === 'solution');
+    expect(task.target).toBeDefined();
+    expect(solution.stamp).toBe(CryptoUtils.sha256(`a:${solution.nonce}:b`));
+    expect(CryptoUtils.hasLeadingZeros(solution.stamp, 6.5)).toBe(true);
+  });
+  
+  it('should solve scrypt stamps in the Web Worker source', () => {
+    const scrypt = { N: 16, r: 2, p: 2 };
+    const suffix = `:${'c'.repeat(64)}`;
+    const { source, task } = getBrowserSolver({ prefix: 'a:', suffix, difficulty: 4, scrypt });
+    const messages: any[] = [];
+    const self: any = { postMessage: (message: any) => messages.push(message) };
+    
+    new Function('self', source)(self);
+    self.onmessage({ data: task });
+    
+    // Compared with the TypeScript scrypt, including the HMAC key hashing of inputs over 64 bytes
+    const solution = messages.find(message => message.type === 'solution');
+    expect(solution.stamp).toBe(CryptoUtils.scrypt(`a:${solution.nonce}${suffix}`, scrypt));
+    expect(CryptoUtils.hasLeadingZeros(solution.stamp, 4)).toBe(true);
+  });
+});
@@ -0,0 +1,46 @@
+import { buildStampInput, canonicalizeQuery } from '../src/utils/stamp';
+
+describe('Stamp utilities', () => {
+  describe('buildStampInput', () => {
+    const parts = {
+      endpoint: '/api/test',
+      timestamp: '1700000000',
+      nonce: 'nonce',
+      context: 'context'
+    };
+    
+    it('should join the basic stamp parts', () => {
+      expect(buildStampInput(parts)).toBe('/api/test:1700000000:nonce:context');
+    });
+    
+    it('should append the challenge seed', () => {
+      expect(buildStampInput({ ...parts, seed: 'seed' })).toBe('/api/test:1700000000:nonce:context:seed');
+    });
+    
+    it('should append request details before the seed', () => {
+      const input = buildStampInput({
+        ...parts,
+        request: { method: 'POST', query: 'a=1', bodyHash: 'body-hash' },
+        seed: 'seed'
+      });
+      
+      expect(input).toBe('/api/test:1700000000:nonce:context:POST:a=1:body-hash:seed');
+    });
+  });
+  
+  describe('canonicalizeQuery', () => {
+    it('should return an empty string for empty queries', () => {
+      expect(canonicalizeQuery('')).toBe('');
+      expect(canonicalizeQuery('?')).toBe('');
+    });
+    
+    it('should sort parameters by name and value', () => {
+      expect(canonicalizeQuery('?b=2&a=3&a=1')).toBe('a=1&a=3&b=2');
+    });
+    
+    it('should normalize encoding', () => {
+      expect(canonicalizeQuery('q=hello%20world')).toBe(canonicalizeQuery('q=hello+world'));
+      expect(canonicalizeQuery('name=%C3%A9')).toBe(canonicalizeQuery('name=é'));
+    });
+  });
+});
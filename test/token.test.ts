@@ -0,0 +1,101 @@
+import {
+  createAccessToken,
+  createClearanceToken,
+  verifyAccessToken,
+  verifyClearanceToken,
+  encodeAccessToken,
+  decodeAccessToken
+} from '../src/token';
+import { validateAndMergeConfig } from '../src/config';
+
+// Uses the real CryptoUtils implementation
+
+describe('Access tokens', () => {
+  const config = validateAndMergeConfig({
+    endpoints: ['/api/*'],
+    secret: 'test-secret',
+    token: {
+      enabled: true,
+      ttl: 120,
+      maxRequests: 10
+    }
+  }, 'cloudflare');
+  const now = 1700000000000;
+  
+  describe('createAccessToken', () => {
+    it('should create a signed token with the configured ttl and budget', () => {
+      const token = createAccessToken(config, 'context', '/api/*', now);
+      
+      expect(token.id).toMatch(/^[0-9a-f]{32}$/);
+      expect(token.expires).toBe(1700000000 + 120);
+      expect(token.budget).toBe(10);
+      expect(token.signature).toMatch(/^[0-9a-f]{64}$/);
+    });
+  });
+  
+  describe('verifyAccessToken', () => {
+    it('should accept a token for the client and rule it was issued to', () => {
+      const token = createAccessToken(config, 'context', '/api/*', now);
+      
+      expect(verifyAccessToken(token, config, 'context', '/api/*', now)).toBe(true);
+    });
+    
+    it('should reject tokens used by another client or for another rule', () => {
+      const token = createAccessToken(config, 'context', '/api/*', now);
+      
+      expect(verifyAccessToken(token, config, 'other-context', '/api/*', now)).toBe(false);
+      expect(verifyAccessToken(token, config, 'context', '/admin/*', now)).toBe(false);
+    });
+    
+    it('should reject expired and tampered tokens', () => {
+      const token = createAccessToken(config, 'context', '/api/*', now);
+      
+      expect(verifyAccessToken(token, config, 'context', '/api/*', now + 121 * 1000)).toBe(false);
+      expect(verifyAccessToken({ ...token, budget: 1000 }, config, 'context', '/api/*', now)).toBe(false);
+      expect(verifyAccessToken({ ...token, expires: token.expires + 3600 }, config, 'context', '/api/*', now)).toBe(false);
+    });
+    
+    it('should reject tokens signed with another secret', () => {
+      const token = createAccessToken({ ...config, secret: 'other-secret' }, 'context', '/api/*', now);
+      
+      expect(verifyAccessToken(token, config, 'context', '/api/*', now)).toBe(false);
+    });
+  });
+  
+  describe('clearance tokens', () => {
+    const pageConfig = { ...config, interstitial: { enabled: true, ttl: 600, maxRequests: 50 } };
+    
+    it('should create a signed token with the interstitial ttl and budget', () => {
+      const token = createClearanceToken(pageConfig, 'context', now);
+      
+      expect(token.expires).toBe(1700000000 + 600);
+      expect(token.budget).toBe(50);
+      expect(verifyClearanceToken(token, pageConfig, 'context', now)).toBe(true);
+      expect(verifyClearanceToken(token, pageConfig, 'other-context', now)).toBe(false);
+    });
+    
+    it('should never accept an access token as a clearance token, or the other way round', () => {
+      const access = createAccessToken(pageConfig, 'context', '', now);
+      const clearance = createClearanceToken(pageConfig, 'context', now);
+      
+      expect(verifyClearanceToken(access, pageConfig, 'context', now)).toBe(false);
+      expect(verifyAccessToken(clearance, pageConfig, 'context', '', now)).toBe(false);
+      expect(verifyAccessToken(clearance, pageConfig, 'context', '*', now)).toBe(false);
+    });
+  });
+  
+  describe('encodeAccessToken / decodeAccessToken', () => {
+    it('should round-trip a token', () => {
+      const token = createAccessToken(config, 'context', '/api/*', now);
+      
+      expect(decodeAccessToken(encodeAccessToken(token))).toEqual(token);
+    });
+    
+    it('should return null for malformed values', () => {
+      expect(decodeAccessToken('')).toBeNull();
+      expect(decodeAccessToken('id.1700000000.10')).toBeNull();
+      expect(decodeAccessToken('id.soon.10.signature')).toBeNull();
+      expect(decodeAccessToken('id.1700000000.0.signature')).toBeNull();
+    });
+  });
+});